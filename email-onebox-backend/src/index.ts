@@ -5,63 +5,143 @@ dotenv.config();
 // Now, import everything else
 import express from 'express';
 import cors from 'cors';
-import { performanceMiddleware, getPerformanceStats } from './middleware/performance.middleware';
-import { connectToImap } from './services/imap.service';
 import {
-  createEmailIndexIfNotExists,
+  getPerformanceStats,
+  performanceMiddleware,
+} from './middleware/performance.middleware';
+import {
+  attachmentUpload,
+  getUploadedAttachments,
+} from './middleware/upload.middleware';
+import {
+  AccountError,
+  createAccount,
+  deleteAccount,
+  getAccount,
+  getAccountByEmail,
+  listAccounts,
+  restartAccount,
+  setAccountSignature,
+  startAccounts,
+  toPublicAccount,
+  updateAccount,
+} from './services/account.service';
+import { getAccountStatuses } from './services/imap.service';
+import {
+  DEFAULT_PAGE_SIZE,
+  EmailDocument,
+  getEmailById,
+  getEmailFacets,
+  getIndexMigration,
+  IndexMigrationError,
+  MAX_PAGE_SIZE,
+  migrateEmailIndex,
+  reindexEmails,
   searchEmails,
 } from './services/elasticsearch.service';
+import {
+  archiveEmail,
+  FLAG_ACTIONS,
+  FlagAction,
+  MailboxActionError,
+  moveEmail,
+  restoreEmail,
+  setEmailFlag,
+  trashEmail,
+} from './services/mailbox.service';
+import {
+  createDraft,
+  deleteDraft,
+  DraftError,
+  getDraft,
+  listDrafts,
+  updateDraft,
+} from './services/drafts.service';
+import {
+  cancelMerge,
+  getMailMerge,
+  getMergeReport,
+  listMailMerges,
+  MailMergeError,
+  parseRecipients,
+  previewMerge,
+  sendMerge,
+} from './services/mail-merge.service';
 import { EmailContext, ragService } from './services/rag.service';
+import { SearchQueryError } from './services/search-query.service';
+import {
+  createSnippet,
+  deleteSnippet,
+  fillVariables,
+  getSnippet,
+  getVariables,
+  listSnippets,
+  SnippetError,
+  updateSnippet,
+} from './services/snippets.service';
+import {
+  BODY_FORMATS,
+  BodyFormat,
+  renderBody,
+} from './services/body-format.service';
+import {
+  buildReplyDraft,
+  REPLY_MODES,
+  ReplyMode,
+  sendReply,
+} from './services/reply.service';
+import { readAttachment } from './services/attachment.service';
+import {
+  addThreadSummaries,
+  backfillThreadIds,
+  getThread,
+  summarizeThread,
+} from './services/thread.service';
 import { vectorService } from './services/vector.service';
 import { emailService } from './services/email.service';
+import {
+  cancelEmail,
+  getOutboxEntry,
+  listOutbox,
+  OUTBOX_STATUSES,
+  OutboxEntry,
+  OutboxError,
+  OutboxStatus,
+  queueEmail,
+  startOutbox,
+  toPublicOutboxEntry,
+} from './services/outbox.service';
+import {
+  completeAuthorization,
+  getAuthorizationUrl,
+  getOAuthStatus,
+  OAuthError,
+} from './services/oauth.service';
 
 // --- Configuration ---
-interface EmailAccount {
-  user: string;
-  password: string;
-  host: string;
-  port: number;
-  tls: boolean;
-  tlsOptions: { rejectUnauthorized: boolean };
-}
-
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-const accounts: EmailAccount[] = [
-  {
-    user: process.env.IMAP_USER_1!,
-    password: process.env.IMAP_PASSWORD_1!,
-    host: process.env.IMAP_HOST_1!,
-    port: 993,
-    tls: true,
-    tlsOptions: { rejectUnauthorized: false },
-  },
-  {
-    user: process.env.IMAP_USER_2!,
-    password: process.env.IMAP_PASSWORD_2!,
-    host: process.env.IMAP_HOST_2!,
-    port: 993,
-    tls: true,
-    tlsOptions: { rejectUnauthorized: false },
-  },
-];
-
 const API_PORT = 3001;
 
+/**
+ * The message of a caught error, for the details of an error response.
+ */
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
 /**
  * The main function to start the application.
  */
 async function startApp() {
   console.log('🚀 Starting the Onebox application...');
 
-  // 1. Ensure the Elasticsearch index is ready
-  await createEmailIndexIfNotExists();
+  // 1. Ensure the Elasticsearch index is ready and its mappings current
+  await migrateEmailIndex();
+  await backfillThreadIds();
 
-  // 2. Start the email syncing process for all accounts (mock implementation)
-  accounts.forEach(accountConfig => {
-    if (accountConfig.user && accountConfig.password && accountConfig.host) {
-      connectToImap(accountConfig);
-    }
-  });
+  // 2. Start the email syncing process for all registered accounts
+  await startAccounts();
+  // Check SMTP logins in the background; sending works without waiting
+  emailService.verifyTransports();
+  await startOutbox();
 
   // 3. Initialize RAG services
   console.log('🤖 Initializing AI services...');
@@ -73,16 +153,284 @@ async function startApp() {
   app.use(cors());
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true }));
-  
+
   // Add performance monitoring middleware
   app.use(performanceMiddleware);
 
+  // `q` takes Gmail-style operators: from:, to:, subject:, has:attachment,
+  // is:unread, category:, after:/before:, in:folder, "phrases" and -negation.
+  // Results come in pages of `pageSize`; pass `nextCursor` as `cursor` for
+  // the next one.
   app.get('/api/emails', async (req, res) => {
     const query = (req.query.q as string) || '';
     const account = (req.query.account as string) || '';
+    const hasAttachments = req.query.hasAttachments as string | undefined;
+    const threads = req.query.threads === 'true';
+    const pageSize = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(
+        1,
+        Number.parseInt(req.query.pageSize as string, 10) || DEFAULT_PAGE_SIZE,
+      ),
+    );
+
+    try {
+      const { emails, total, nextCursor } = await searchEmails(
+        query,
+        account,
+        {
+          ...(hasAttachments === undefined
+            ? {}
+            : { hasAttachments: hasAttachments === 'true' }),
+          threads,
+        },
+        { size: pageSize, cursor: (req.query.cursor as string) || null },
+      );
+      return res.json({
+        success: true,
+        total,
+        pageSize,
+        nextCursor,
+        emails: threads ? await addThreadSummaries(emails) : emails,
+      });
+    } catch (error) {
+      const invalid = error instanceof SearchQueryError;
+      if (!invalid) {
+        console.error('Error searching emails:', error);
+      }
+      return res.status(invalid ? error.status : 500).json({
+        success: false,
+        error: invalid ? 'Invalid search query' : 'Failed to search emails',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  // Counts per account, folder, category, state and age for the emails
+  // matching `q`, for the sidebar and header. `tz` sets where days start.
+  app.get('/api/emails/facets', async (req, res) => {
+    try {
+      const facets = await getEmailFacets(
+        (req.query.q as string) || '',
+        (req.query.account as string) || '',
+        (req.query.tz as string) || undefined,
+      );
+      return res.json({ success: true, ...facets });
+    } catch (error) {
+      const invalid = error instanceof SearchQueryError;
+      if (!invalid) {
+        console.error('Error counting emails:', error);
+      }
+      return res.status(invalid ? error.status : 500).json({
+        success: false,
+        error: invalid ? 'Invalid search query' : 'Failed to count emails',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  // A whole conversation, oldest message first
+  app.get('/api/threads/:threadId', async (req, res) => {
+    try {
+      const emails = await getThread(req.params.threadId);
+      if (emails.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: 'Thread not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        thread: summarizeThread(req.params.threadId, emails),
+        subject: emails[0]!.subject,
+        emails,
+      });
+    } catch (error) {
+      console.error('Error fetching thread:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to fetch thread',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  // Attachment download
+  app.get('/api/emails/:id/attachments/:attachmentId', async (req, res) => {
+    try {
+      const email = await getEmailById(req.params.id);
+      const attachment = email?.attachments?.find(
+        candidate => candidate.id === req.params.attachmentId,
+      );
+      if (!attachment) {
+        return res.status(404).json({
+          success: false,
+          error: 'Attachment not found',
+        });
+      }
+
+      const content = await readAttachment(attachment);
+      if (!content) {
+        return res.status(404).json({
+          success: false,
+          error: 'Attachment content is missing from storage',
+        });
+      }
+
+      res.type(attachment.contentType);
+      res.attachment(attachment.filename);
+      return res.send(content);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to download attachment',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  /**
+   * Registers a route that runs a mailbox action on one email and answers
+   * with the updated email document.
+   */
+  const emailActionRoute = (
+    path: string,
+    label: string,
+    action: (
+      email: EmailDocument,
+      body: { folder?: string },
+    ) => Promise<EmailDocument>,
+  ) => {
+    app.post(`/api/emails/:id/${path}`, async (req, res) => {
+      try {
+        const email = await getEmailById(req.params.id);
+        if (!email) {
+          return res.status(404).json({
+            success: false,
+            error: 'Email not found',
+          });
+        }
+
+        const updated = await action(email, req.body || {});
+        return res.json({ success: true, email: updated });
+      } catch (error) {
+        console.error(`Error trying to ${label}:`, error);
+        return res
+          .status(error instanceof MailboxActionError ? error.status : 500)
+          .json({
+            success: false,
+            error: `Failed to ${label}`,
+            details: errorMessage(error),
+          });
+      }
+    });
+  };
+
+  // Mark read/unread and starred/unstarred, pushed back to the IMAP server
+  (Object.keys(FLAG_ACTIONS) as FlagAction[]).forEach(action => {
+    emailActionRoute(action, `mark email as ${action}`, email =>
+      setEmailFlag(email, action),
+    );
+  });
+
+  // Move between folders on the IMAP server
+  emailActionRoute('move', 'move email', (email, body) => {
+    if (!body.folder) {
+      throw new MailboxActionError('Missing required field: folder', 400);
+    }
+    return moveEmail(email, body.folder);
+  });
+  emailActionRoute('archive', 'archive email', archiveEmail);
+  emailActionRoute('trash', 'move email to trash', trashEmail);
+  emailActionRoute('restore', 'restore email', restoreEmail);
+
+  // Reply, reply-all and forward: GET returns the pre-filled draft, POST
+  // sends it with threading headers and files it in Sent
+  const getReplyMode = (value: unknown): ReplyMode =>
+    REPLY_MODES.includes(value as ReplyMode) ? (value as ReplyMode) : 'reply';
 
-    const emails = await searchEmails(query, account);
-    res.json(emails);
+  // Optional ISO date for scheduled sending, used by the reply and send routes
+  const parseSendAt = (value: unknown) =>
+    typeof value === 'string' && value ? new Date(value) : null;
+
+  const getBodyFormat = (value: unknown): BodyFormat =>
+    BODY_FORMATS.includes(value as BodyFormat)
+      ? (value as BodyFormat)
+      : 'plain';
+
+  app.get('/api/emails/:id/reply', async (req, res) => {
+    try {
+      const email = await getEmailById(req.params.id);
+      if (!email) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found',
+        });
+      }
+
+      return res.json({
+        success: true,
+        draft: buildReplyDraft(email, getReplyMode(req.query.mode)),
+      });
+    } catch (error) {
+      console.error('Error preparing reply:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to prepare reply',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  app.post('/api/emails/:id/reply', async (req, res) => {
+    try {
+      const { mode, to, cc, bcc, subject, body, format, sendAt } =
+        req.body || {};
+      if (typeof body !== 'string') {
+        return res.status(400).json({
+          success: false,
+          error: 'Missing required field: body',
+        });
+      }
+
+      const email = await getEmailById(req.params.id);
+      if (!email) {
+        return res.status(404).json({
+          success: false,
+          error: 'Email not found',
+        });
+      }
+
+      const result = await sendReply(email, getReplyMode(mode), {
+        body,
+        ...(typeof to === 'string' ? { to } : {}),
+        ...(typeof cc === 'string' ? { cc } : {}),
+        ...(typeof bcc === 'string' ? { bcc } : {}),
+        ...(typeof subject === 'string' ? { subject } : {}),
+        format: getBodyFormat(format),
+        sendAt: parseSendAt(sendAt),
+      });
+      return res.json({
+        success: true,
+        delivered: result.status === 'sent',
+        ...result,
+      });
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      return res
+        .status(
+          error instanceof MailboxActionError || error instanceof OutboxError
+            ? error.status
+            : 500,
+        )
+        .json({
+          success: false,
+          error: 'Failed to send reply',
+          details: errorMessage(error),
+        });
+    }
   });
 
   // Reply suggestion endpoint
@@ -130,10 +478,56 @@ async function startApp() {
     }
   });
 
-  // Send email endpoint
-  app.post('/api/send-email', async (req, res) => {
+  // How a send request ended after the outbox's first delivery attempt.
+  // Fallback sends are accepted but clearly flagged as not delivered.
+  const OUTBOX_MESSAGES: Record<OutboxStatus, string> = {
+    scheduled: 'Email scheduled',
+    queued: 'Sending failed temporarily, the email will be retried',
+    sending: 'Email is being sent',
+    sent: 'Email sent successfully',
+    failed: 'Failed to send email',
+    'fallback-logged':
+      'Email service in fallback mode: the email was logged, not delivered',
+    cancelled: 'Email cancelled',
+  };
+
+  const outboxHttpStatus = (entry: OutboxEntry) =>
+    entry.status === 'failed'
+      ? 502
+      : ['scheduled', 'queued'].includes(entry.status)
+        ? 202
+        : 200;
+
+  const outboxResponse = (entry: OutboxEntry) => ({
+    success: entry.status !== 'failed',
+    delivered: entry.status === 'sent',
+    status: entry.status,
+    outboxId: entry.id,
+    messageId: entry.message.messageId,
+    message: OUTBOX_MESSAGES[entry.status],
+    ...(entry.lastError ? { error: entry.lastError } : {}),
+    ...(entry.nextAttemptAt ? { nextAttemptAt: entry.nextAttemptAt } : {}),
+    ...(entry.sendAt ? { sendAt: entry.sendAt } : {}),
+    ...(entry.undoUntil ? { undoUntil: entry.undoUntil } : {}),
+  });
+
+  // Send email endpoint. Accepts JSON, or multipart/form-data with files in
+  // the `attachments` field.
+  app.post('/api/send-email', attachmentUpload, async (req, res) => {
     try {
-      const { from, to, cc, bcc, subject, body, priority } = req.body;
+      const {
+        from,
+        to,
+        cc,
+        bcc,
+        subject,
+        body,
+        format,
+        priority,
+        sendAt,
+        draftId,
+      } = req.body;
+      const attachments = getUploadedAttachments(req);
 
       // Validate required fields
       if (!from || !to || !subject) {
@@ -147,35 +541,324 @@ async function startApp() {
         `📧 Attempting to send email from ${from} to ${to}: ${subject}`,
       );
 
-      // Use real email service
-      const result = await emailService.sendEmail({
+      // Deliver through the outbox, which retries transient failures
+      const entry = await queueEmail(
+        {
+          from,
+          to,
+          ...(cc ? { cc } : {}),
+          ...(bcc ? { bcc } : {}),
+          subject,
+          body: body || '',
+          format: getBodyFormat(format),
+          priority,
+          attachments,
+        },
+        { saveToSent: true, sendAt: parseSendAt(sendAt) },
+      );
+      // The draft the email was written in is done with once it is queued
+      if (draftId && entry.status !== 'failed' && getDraft(draftId)) {
+        await deleteDraft(draftId);
+      }
+      return res.status(outboxHttpStatus(entry)).json(outboxResponse(entry));
+    } catch (error: any) {
+      console.error('Error sending email:', error);
+      return res
+        .status(error instanceof OutboxError ? error.status : 500)
+        .json({
+          success: false,
+          error: 'Failed to send email',
+          details: error.message,
+        });
+    }
+  });
+
+  // Renders a body the way it will be sent, for the composer's preview
+  app.post('/api/compose/preview', (req, res) => {
+    const { body, format } = req.body || {};
+    if (typeof body !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing required field: body',
+      });
+    }
+    return res.json({
+      success: true,
+      ...renderBody(body, getBodyFormat(format)),
+    });
+  });
+
+  // Delivery state of outgoing messages
+  app.get('/api/outbox', (req, res) => {
+    const { status } = req.query;
+    if (status && !OUTBOX_STATUSES.includes(status as OutboxStatus)) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid status: ${status}`,
+      });
+    }
+    const entries = listOutbox(status as OutboxStatus | undefined);
+    return res.json({
+      success: true,
+      total: entries.length,
+      entries: entries.map(toPublicOutboxEntry),
+    });
+  });
+
+  app.get('/api/outbox/:id', (req, res) => {
+    const entry = getOutboxEntry(req.params.id);
+    if (!entry) {
+      return res.status(404).json({
+        success: false,
+        error: 'Outbox entry not found',
+      });
+    }
+    return res.json({ success: true, entry: toPublicOutboxEntry(entry) });
+  });
+
+  // Undo send: cancels a message still in its undo window or schedule
+  app.post('/api/outbox/:id/cancel', async (req, res) => {
+    try {
+      const entry = await cancelEmail(req.params.id);
+      res.json({ success: true, entry: toPublicOutboxEntry(entry) });
+    } catch (error) {
+      console.error('Error cancelling email:', error);
+      res.status(error instanceof OutboxError ? error.status : 500).json({
+        success: false,
+        error: 'Failed to cancel email',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  // Drafts, saved by the composer while an email is being written
+  const draftErrorStatus = (error: unknown) =>
+    error instanceof DraftError ? error.status : 500;
+
+  app.get('/api/drafts', (req, res) => {
+    const drafts = listDrafts(req.query.account as string | undefined);
+    res.json({ success: true, total: drafts.length, drafts });
+  });
+
+  app.get('/api/drafts/:id', (req, res) => {
+    const draft = getDraft(req.params.id);
+    if (!draft) {
+      return res.status(404).json({
+        success: false,
+        error: 'Draft not found',
+      });
+    }
+    return res.json({ success: true, draft });
+  });
+
+  app.post('/api/drafts', async (req, res) => {
+    try {
+      const draft = await createDraft(req.body);
+      res.status(201).json({ success: true, draft });
+    } catch (error) {
+      console.error('Error creating draft:', error);
+      res.status(draftErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to save draft',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  app.put('/api/drafts/:id', async (req, res) => {
+    try {
+      const draft = await updateDraft(req.params.id, req.body);
+      res.json({ success: true, draft });
+    } catch (error) {
+      console.error('Error updating draft:', error);
+      res.status(draftErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to save draft',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  app.delete('/api/drafts/:id', async (req, res) => {
+    try {
+      const draft = await deleteDraft(req.params.id);
+      res.json({ success: true, draft });
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      res.status(draftErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to delete draft',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  // Snippet library for the composers' slash command
+  const snippetErrorStatus = (error: unknown) =>
+    error instanceof SnippetError ? error.status : 500;
+
+  app.get('/api/snippets', (_req, res) => {
+    res.json({ success: true, snippets: listSnippets() });
+  });
+
+  app.post('/api/snippets', async (req, res) => {
+    try {
+      const snippet = await createSnippet(req.body);
+      res.status(201).json({ success: true, snippet });
+    } catch (error) {
+      console.error('Error creating snippet:', error);
+      res.status(snippetErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to save snippet',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  app.put('/api/snippets/:id', async (req, res) => {
+    try {
+      const snippet = await updateSnippet(req.params.id, req.body);
+      res.json({ success: true, snippet });
+    } catch (error) {
+      console.error('Error updating snippet:', error);
+      res.status(snippetErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to save snippet',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  app.delete('/api/snippets/:id', async (req, res) => {
+    try {
+      const snippet = await deleteSnippet(req.params.id);
+      res.json({ success: true, snippet });
+    } catch (error) {
+      console.error('Error deleting snippet:', error);
+      res.status(snippetErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to delete snippet',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  // Fills in a snippet's placeholders; those without a value stay in place
+  app.post('/api/snippets/:id/render', (req, res) => {
+    const snippet = getSnippet(req.params.id);
+    if (!snippet) {
+      return res.status(404).json({
+        success: false,
+        error: 'Snippet not found',
+      });
+    }
+    const values: Record<string, string> = {};
+    Object.entries(req.body?.variables || {}).forEach(([name, value]) => {
+      if (value !== undefined && value !== null) {
+        values[name] = String(value);
+      }
+    });
+    return res.json({
+      success: true,
+      body: fillVariables(snippet.body, values),
+      missing: snippet.variables.filter(name => values[name] === undefined),
+    });
+  });
+
+  // Mail merge: one personalized email per recipient of a CSV or JSON list,
+  // sent through the outbox a few seconds apart
+  const mailMergeErrorStatus = (error: unknown) =>
+    error instanceof MailMergeError ? error.status : 500;
+
+  app.post('/api/mail-merge/preview', (req, res) => {
+    try {
+      const { subject, body, format, recipients } = req.body || {};
+      const previews = previewMerge(
+        { subject, body, format: getBodyFormat(format) },
+        parseRecipients(recipients),
+      );
+      res.json({
+        success: true,
+        total: previews.length,
+        sendable: previews.filter(preview => !preview.error).length,
+        variables: getVariables(`${subject}\n${body}`),
+        recipients: previews,
+      });
+    } catch (error) {
+      console.error('Error previewing mail merge:', error);
+      res.status(mailMergeErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to preview mail merge',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  app.post('/api/mail-merge', async (req, res) => {
+    try {
+      const {
         from,
-        to,
-        cc,
-        bcc,
         subject,
         body,
+        format,
         priority,
+        recipients,
+        intervalSeconds,
+        sendAt,
+      } = req.body || {};
+      const interval = Number(intervalSeconds);
+      const merge = await sendMerge(
+        {
+          from,
+          subject,
+          body,
+          format: getBodyFormat(format),
+          priority,
+          sendAt: parseSendAt(sendAt),
+          ...(Number.isFinite(interval) && intervalSeconds !== undefined
+            ? { intervalSeconds: interval }
+            : {}),
+        },
+        parseRecipients(recipients),
+      );
+      res.status(202).json({ success: true, merge: getMergeReport(merge) });
+    } catch (error) {
+      console.error('Error sending mail merge:', error);
+      res.status(mailMergeErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to send mail merge',
+        details: errorMessage(error),
       });
+    }
+  });
 
-      if (result.success) {
-        return res.json({
-          success: true,
-          messageId: result.messageId,
-          message: 'Email sent successfully',
-        });
-      } else {
-        return res.status(500).json({
-          success: false,
-          error: result.error || 'Failed to send email',
-        });
-      }
-    } catch (error: any) {
-      console.error('Error sending email:', error);
-      return res.status(500).json({
+  app.get('/api/mail-merge', (_req, res) => {
+    const merges = listMailMerges().map(getMergeReport);
+    res.json({ success: true, total: merges.length, merges });
+  });
+
+  app.get('/api/mail-merge/:id', (req, res) => {
+    const merge = getMailMerge(req.params.id);
+    if (!merge) {
+      return res.status(404).json({
         success: false,
-        error: 'Failed to send email',
-        details: error.message,
+        error: 'Mail merge not found',
+      });
+    }
+    return res.json({ success: true, merge: getMergeReport(merge) });
+  });
+
+  // Stops the messages of a merge that have not gone out yet
+  app.post('/api/mail-merge/:id/cancel', async (req, res) => {
+    try {
+      const { merge, cancelled } = await cancelMerge(req.params.id);
+      res.json({ success: true, cancelled, merge: getMergeReport(merge) });
+    } catch (error) {
+      console.error('Error cancelling mail merge:', error);
+      res.status(mailMergeErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to cancel mail merge',
+        details: errorMessage(error),
       });
     }
   });
@@ -183,7 +866,7 @@ async function startApp() {
   // Test email endpoint
   app.post('/api/test-email', async (req, res) => {
     try {
-      const { to } = req.body;
+      const { to, from } = req.body;
 
       if (!to) {
         return res.status(400).json({
@@ -192,20 +875,10 @@ async function startApp() {
         });
       }
 
-      const result = await emailService.sendTestEmail(to);
-
-      if (result.success) {
-        return res.json({
-          success: true,
-          messageId: result.messageId,
-          message: 'Test email sent successfully',
-        });
-      } else {
-        return res.status(500).json({
-          success: false,
-          error: result.error || 'Failed to send test email',
-        });
-      }
+      // Goes through the outbox like any other email, so the answer says
+      // whether it was sent, scheduled, queued for a retry or only logged
+      const entry = await queueEmail(emailService.getTestEmail(to, from));
+      return res.status(outboxHttpStatus(entry)).json(outboxResponse(entry));
     } catch (error: any) {
       console.error('Error sending test email:', error);
       return res.status(500).json({
@@ -227,13 +900,190 @@ async function startApp() {
     });
   });
 
+  // IMAP connection health for every synced account
+  app.get('/api/accounts/status', (_req, res) => {
+    res.json({
+      success: true,
+      accounts: getAccountStatuses().map(status => ({
+        ...status,
+        oauth: getOAuthStatus(status.account),
+      })),
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // Account registry. Changes take effect immediately: sync workers are
+  // started, restarted or stopped to match.
+  const accountErrorStatus = (error: unknown) =>
+    error instanceof AccountError ? error.status : 500;
+
+  app.get('/api/accounts', (_req, res) => {
+    res.json({
+      success: true,
+      accounts: listAccounts().map(toPublicAccount),
+    });
+  });
+
+  app.get('/api/accounts/:id', (req, res) => {
+    const account = getAccount(req.params.id);
+    if (!account) {
+      return res.status(404).json({
+        success: false,
+        error: 'Account not found',
+      });
+    }
+    return res.json({ success: true, account: toPublicAccount(account) });
+  });
+
+  app.post('/api/accounts', async (req, res) => {
+    try {
+      const account = await createAccount(req.body);
+      res
+        .status(201)
+        .json({ success: true, account: toPublicAccount(account) });
+    } catch (error) {
+      console.error('Error creating account:', error);
+      res.status(accountErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to create account',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  app.put('/api/accounts/:id', async (req, res) => {
+    try {
+      const account = await updateAccount(req.params.id, req.body);
+      res.json({ success: true, account: toPublicAccount(account) });
+    } catch (error) {
+      console.error('Error updating account:', error);
+      res.status(accountErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to update account',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  // Signature the composers add for the account; an empty body removes it
+  app.put('/api/accounts/:id/signature', async (req, res) => {
+    try {
+      const account = await setAccountSignature(req.params.id, req.body);
+      res.json({ success: true, signature: account.signature });
+    } catch (error) {
+      console.error('Error saving signature:', error);
+      res.status(accountErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to save signature',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  app.delete('/api/accounts/:id', async (req, res) => {
+    try {
+      const account = await deleteAccount(req.params.id);
+      res.json({ success: true, account: toPublicAccount(account) });
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      res.status(accountErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to delete account',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  // Starts OAuth2 authorization of an account; open the returned URL in a
+  // browser and the provider redirects back to /api/oauth/callback
+  app.get('/api/accounts/:id/oauth/authorize', (req, res) => {
+    try {
+      const account = getAccount(req.params.id);
+      if (!account) {
+        throw new AccountError('Account not found', 404);
+      }
+      if (!account.oauth) {
+        throw new AccountError('Account does not use OAuth2', 400);
+      }
+      const url = getAuthorizationUrl(account.email, account.oauth.provider);
+      if (req.query.redirect === 'true') {
+        return res.redirect(url);
+      }
+      return res.json({ success: true, url });
+    } catch (error) {
+      return res
+        .status(
+          error instanceof OAuthError
+            ? error.status
+            : accountErrorStatus(error),
+        )
+        .json({
+          success: false,
+          error: 'Failed to start OAuth2 authorization',
+          details: errorMessage(error),
+        });
+    }
+  });
+
+  app.get('/api/oauth/callback', async (req, res) => {
+    const { code, state, error } = req.query;
+    if (error || typeof code !== 'string' || typeof state !== 'string') {
+      return res
+        .status(400)
+        .type('text/plain')
+        .send(`Authorization was not completed: ${error || 'missing code'}`);
+    }
+
+    try {
+      const email = await completeAuthorization(code, state);
+      const account = getAccountByEmail(email);
+      if (account) {
+        restartAccount(account);
+      }
+      return res
+        .type('text/plain')
+        .send(
+          `${email} is connected. You can close this window and return to OneBox.`,
+        );
+    } catch (err) {
+      console.error('Error completing OAuth2 authorization:', err);
+      return res
+        .status(err instanceof OAuthError ? err.status : 500)
+        .type('text/plain')
+        .send(`Authorization failed: ${errorMessage(err)}`);
+    }
+  });
+
+  // Rebuilds the email index into a new version behind the "emails" alias.
+  // Searching and syncing keep working; GET reports the progress.
+  const indexMigrationErrorStatus = (error: unknown) =>
+    error instanceof IndexMigrationError ? error.status : 500;
+
+  app.post('/api/admin/reindex', async (_req, res) => {
+    try {
+      const migration = await reindexEmails();
+      res.status(202).json({ success: true, migration });
+    } catch (error) {
+      console.error('Error starting reindex:', error);
+      res.status(indexMigrationErrorStatus(error)).json({
+        success: false,
+        error: 'Failed to start reindex',
+        details: errorMessage(error),
+      });
+    }
+  });
+
+  app.get('/api/admin/reindex', (_req, res) => {
+    res.json({ success: true, migration: getIndexMigration() });
+  });
+
   // Performance monitoring endpoint
   app.get('/api/performance', (_req, res) => {
     const stats = getPerformanceStats();
     res.json({
       success: true,
       performance: stats,
-      timestamp: new Date().toISOString()
+      timestamp: new Date().toISOString(),
     });
   });
 
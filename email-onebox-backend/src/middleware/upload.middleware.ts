@@ -0,0 +1,64 @@
+import { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { OutgoingAttachment } from '../services/email.service';
+
+// Most providers reject messages over 25 MB; base64 adds about a third
+export const MAX_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 20;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: MAX_ATTACHMENTS },
+  // Browsers send UTF-8 file names without declaring a charset
+  defParamCharset: 'utf8',
+});
+
+/**
+ * Accepts `multipart/form-data` with files in the `attachments` field, and
+ * leaves JSON requests untouched. Oversized uploads are answered with 413
+ * before the route runs.
+ */
+export const attachmentUpload = (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) => {
+  upload.array('attachments', MAX_ATTACHMENTS)(req, res, (err: unknown) => {
+    if (!err) {
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      const total = files.reduce((sum, file) => sum + file.size, 0);
+      if (total <= MAX_ATTACHMENT_BYTES) {
+        return next();
+      }
+      return res.status(413).json({
+        success: false,
+        error: 'Attachments are too large',
+        details: `Attachments may add up to ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`,
+      });
+    }
+
+    if (err instanceof multer.MulterError) {
+      const tooLarge =
+        err.code === 'LIMIT_FILE_SIZE' || err.code === 'LIMIT_FILE_COUNT';
+      return res.status(tooLarge ? 413 : 400).json({
+        success: false,
+        error: 'Invalid attachments',
+        details:
+          err.code === 'LIMIT_FILE_SIZE'
+            ? `Each file may be up to ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`
+            : err.message,
+      });
+    }
+    return next(err);
+  });
+};
+
+/**
+ * The uploaded files of a request as attachments for EmailService.
+ */
+export const getUploadedAttachments = (req: Request): OutgoingAttachment[] =>
+  ((req.files as Express.Multer.File[] | undefined) || []).map(file => ({
+    filename: file.originalname,
+    content: file.buffer,
+    contentType: file.mimetype,
+  }));
@@ -0,0 +1,529 @@
+import crypto from 'crypto';
+import {
+  htmlToText,
+  renderBody,
+  sanitizeEmailHtml,
+} from './body-format.service';
+import {
+  connectToImap,
+  DEFAULT_SYNC_OPTIONS,
+  disconnectImap,
+} from './imap.service';
+import {
+  buildXOAuth2Token,
+  deleteTokens,
+  getAccessToken,
+  getProviderConfig,
+  OAUTH_PROVIDERS,
+  OAuthProvider,
+  saveRefreshToken,
+} from './oauth.service';
+import { JsonFileStore } from './store.service';
+
+/**
+ * Connection settings for one server. `secure` means implicit TLS (IMAPS on
+ * 993, SMTPS on 465); `rejectUnauthorized: false` accepts self-signed
+ * certificates and should only be used for servers you trust. OAuth2
+ * accounts have an empty password.
+ */
+export interface ServerSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  rejectUnauthorized: boolean;
+  user: string;
+  password: string;
+}
+
+/**
+ * OAuth2 (XOAUTH2) login. The tokens themselves are kept by the OAuth
+ * service, not in the registry.
+ */
+export interface AccountOAuthSettings {
+  provider: OAuthProvider;
+}
+
+/**
+ * Added to the end of every email the composers start for the account.
+ * Both versions are kept so plain-text and HTML emails each get a fitting
+ * one.
+ */
+export interface AccountSignature {
+  text: string;
+  html: string;
+  updatedAt: string;
+}
+
+export interface AccountSyncSettings {
+  enabled: boolean;
+  folders: string[];
+  initialSyncDays: number;
+}
+
+/**
+ * A configured mailbox. The email address identifies the account in the
+ * index, so it cannot change once the account exists.
+ */
+export interface Account {
+  id: string;
+  email: string;
+  displayName: string;
+  color: string;
+  imap: ServerSettings;
+  smtp: ServerSettings | null;
+  oauth: AccountOAuthSettings | null;
+  sync: AccountSyncSettings;
+  signature: AccountSignature | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * An account as returned by the API, without its passwords.
+ */
+export type PublicAccount = Omit<Account, 'imap' | 'smtp'> & {
+  imap: Omit<ServerSettings, 'password'> & { hasPassword: boolean };
+  smtp: (Omit<ServerSettings, 'password'> & { hasPassword: boolean }) | null;
+};
+
+/**
+ * An account definition as sent to the API. Every field is checked and
+ * converted before it is stored; omitted server settings fall back to
+ * defaults.
+ */
+export interface AccountInput {
+  email?: string;
+  displayName?: string;
+  color?: string;
+  imap?: Partial<ServerSettings>;
+  smtp?: Partial<ServerSettings> | null;
+  oauth?: { provider?: string; refreshToken?: string } | null;
+  sync?: Partial<AccountSyncSettings>;
+  signature?: SignatureInput | null;
+}
+
+export type SignatureInput = Partial<Pick<AccountSignature, 'text' | 'html'>>;
+
+/**
+ * An invalid account definition or an unknown account, carrying the HTTP
+ * status the API should answer with.
+ */
+export class AccountError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+const ACCOUNT_COLORS = [
+  '#EA4335',
+  '#0078D4',
+  '#6001D2',
+  '#10B981',
+  '#F59E0B',
+  '#EC4899',
+  '#14B8A6',
+  '#8B5CF6',
+];
+
+const store = new JsonFileStore<Account>('accounts');
+
+const pickColor = (email: string) => {
+  const hash = crypto.createHash('md5').update(email).digest();
+  return ACCOUNT_COLORS[hash[0]! % ACCOUNT_COLORS.length]!;
+};
+
+/**
+ * Validates and fills in server settings.
+ * @param input The settings from the request.
+ * @param defaults Settings to fall back to, e.g. the stored ones on update.
+ */
+const normalizeServer = (
+  kind: 'imap' | 'smtp',
+  input: Partial<ServerSettings> | null | undefined,
+  defaults: Partial<ServerSettings>,
+  requirePassword = true,
+): ServerSettings => {
+  const merged = { ...defaults, ...(input || {}) };
+  if (!merged.host) {
+    throw new AccountError(`Missing required field: ${kind}.host`, 400);
+  }
+  if (!merged.user) {
+    throw new AccountError(`Missing required field: ${kind}.user`, 400);
+  }
+  if (requirePassword && !merged.password) {
+    throw new AccountError(`Missing required field: ${kind}.password`, 400);
+  }
+
+  const secure = merged.secure !== false;
+  const defaultPort = kind === 'imap' ? 993 : secure ? 465 : 587;
+  const port = Number(merged.port || defaultPort);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new AccountError(`Invalid ${kind}.port: ${merged.port}`, 400);
+  }
+
+  return {
+    host: String(merged.host),
+    port,
+    secure,
+    rejectUnauthorized: merged.rejectUnauthorized !== false,
+    user: String(merged.user),
+    password: requirePassword ? String(merged.password) : '',
+  };
+};
+
+const normalizeOAuth = (
+  input: AccountInput['oauth'],
+): AccountOAuthSettings | null => {
+  if (!input) {
+    return null;
+  }
+  const provider = OAUTH_PROVIDERS.find(
+    candidate => candidate === input.provider,
+  );
+  if (!provider) {
+    throw new AccountError(
+      `Invalid oauth.provider: ${input.provider} (expected ${OAUTH_PROVIDERS.join(' or ')})`,
+      400,
+    );
+  }
+  return { provider };
+};
+
+/**
+ * Server defaults for an account: the provider's servers for OAuth2 accounts.
+ */
+const serverDefaults = (
+  kind: 'imap' | 'smtp',
+  oauth: AccountOAuthSettings | null,
+  defaults: Partial<ServerSettings>,
+): Partial<ServerSettings> =>
+  oauth
+    ? { ...getProviderConfig(oauth.provider)[kind], ...defaults }
+    : defaults;
+
+const normalizeSync = (
+  input: Partial<AccountSyncSettings> | undefined,
+  defaults: AccountSyncSettings,
+): AccountSyncSettings => {
+  const merged = { ...defaults, ...(input || {}) };
+  const folders = Array.isArray(merged.folders)
+    ? merged.folders.map(String).filter(Boolean)
+    : defaults.folders;
+  const initialSyncDays = Number(merged.initialSyncDays);
+  if (!Number.isInteger(initialSyncDays) || initialSyncDays <= 0) {
+    throw new AccountError(
+      `Invalid sync.initialSyncDays: ${merged.initialSyncDays}`,
+      400,
+    );
+  }
+  return { enabled: merged.enabled !== false, folders, initialSyncDays };
+};
+
+/**
+ * Validates a signature. Either version may be left out and is then derived
+ * from the other; HTML is sanitized like any outgoing body.
+ */
+const normalizeSignature = (
+  input: SignatureInput | null | undefined,
+): AccountSignature | null => {
+  if (!input) {
+    return null;
+  }
+  const text = typeof input.text === 'string' ? input.text.trim() : '';
+  const html =
+    typeof input.html === 'string' ? sanitizeEmailHtml(input.html.trim()) : '';
+  if (!text && !html) {
+    return null;
+  }
+  return {
+    text: text || htmlToText(html),
+    html: html || renderBody(text).html,
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+const DEFAULT_SYNC: AccountSyncSettings = {
+  enabled: true,
+  ...DEFAULT_SYNC_OPTIONS,
+};
+
+export const toPublicAccount = (account: Account): PublicAccount => {
+  const { password: imapPassword, ...imap } = account.imap;
+  const smtp = account.smtp
+    ? (({ password, ...rest }) => ({ ...rest, hasPassword: !!password }))(
+        account.smtp,
+      )
+    : null;
+  return {
+    ...account,
+    imap: { ...imap, hasPassword: !!imapPassword },
+    smtp,
+    // Accounts stored before signatures existed have none
+    signature: account.signature ?? null,
+  };
+};
+
+export const listAccounts = (): Account[] =>
+  store.values().sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+export const getAccount = (id: string) => store.get(id);
+
+export const getAccountByEmail = (email: string) =>
+  store
+    .values()
+    .find(account => account.email.toLowerCase() === email.toLowerCase());
+
+/**
+ * Starts or stops the sync worker of an account to match its settings.
+ */
+const applySync = (account: Account) => {
+  if (!account.sync.enabled) {
+    disconnectImap(account.email);
+    return;
+  }
+  const oauth = account.oauth;
+  connectToImap(
+    {
+      user: account.imap.user,
+      password: account.imap.password,
+      host: account.imap.host,
+      port: account.imap.port,
+      tls: account.imap.secure,
+      tlsOptions: {
+        rejectUnauthorized: account.imap.rejectUnauthorized,
+        servername: account.imap.host,
+      },
+    },
+    {
+      folders: account.sync.folders,
+      initialSyncDays: account.sync.initialSyncDays,
+    },
+    oauth
+      ? async forceRefresh => {
+          const { accessToken } = await getAccessToken(
+            account.email,
+            forceRefresh,
+          );
+          return buildXOAuth2Token(account.imap.user, accessToken);
+        }
+      : undefined,
+  );
+};
+
+/**
+ * Stores the refresh token that came with an account definition, if any.
+ */
+const saveOAuthTokens = async (account: Account, input: AccountInput) => {
+  if (account.oauth && input?.oauth?.refreshToken) {
+    await saveRefreshToken(
+      account.email,
+      account.oauth.provider,
+      String(input.oauth.refreshToken),
+    );
+  }
+};
+
+/**
+ * Adds an account and starts syncing it.
+ */
+export const createAccount = async (input: AccountInput): Promise<Account> => {
+  const email = String(input?.email || '').trim();
+  if (!email) {
+    throw new AccountError('Missing required field: email', 400);
+  }
+  if (getAccountByEmail(email)) {
+    throw new AccountError(`Account ${email} already exists`, 409);
+  }
+
+  const oauth = normalizeOAuth(input.oauth);
+  const imap = normalizeServer(
+    'imap',
+    input.imap,
+    serverDefaults('imap', oauth, { user: email }),
+    !oauth,
+  );
+  // OAuth2 accounts can always send through their provider
+  const smtpInput = oauth && input.smtp === undefined ? {} : input.smtp;
+  const now = new Date().toISOString();
+  const account: Account = {
+    id: crypto.randomUUID(),
+    email,
+    displayName: String(input.displayName || email),
+    color: String(input.color || pickColor(email)),
+    imap,
+    smtp: smtpInput
+      ? normalizeServer(
+          'smtp',
+          smtpInput,
+          serverDefaults('smtp', oauth, {
+            user: imap.user,
+            password: imap.password,
+          }),
+          !oauth,
+        )
+      : null,
+    oauth,
+    sync: normalizeSync(input.sync, DEFAULT_SYNC),
+    signature: normalizeSignature(input.signature),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await store.set(account.id, account);
+  await saveOAuthTokens(account, input);
+  applySync(account);
+  return account;
+};
+
+/**
+ * Changes an account's settings and restarts its sync worker. Omitted
+ * fields, including passwords, keep their stored values. `smtp: null`
+ * removes the SMTP settings and `oauth: null` switches back to passwords.
+ */
+export const updateAccount = async (
+  id: string,
+  input: AccountInput,
+): Promise<Account> => {
+  const existing = store.get(id);
+  if (!existing) {
+    throw new AccountError('Account not found', 404);
+  }
+  if (input?.email && input.email !== existing.email) {
+    throw new AccountError(
+      'The email address of an account cannot change',
+      400,
+    );
+  }
+
+  const oauth =
+    input?.oauth === undefined ? existing.oauth : normalizeOAuth(input.oauth);
+  const imap = normalizeServer(
+    'imap',
+    input?.imap,
+    serverDefaults('imap', oauth, existing.imap),
+    !oauth,
+  );
+  let smtp = existing.smtp;
+  if (input?.smtp === null) {
+    smtp = null;
+  } else if (input?.smtp) {
+    smtp = normalizeServer(
+      'smtp',
+      input.smtp,
+      serverDefaults(
+        'smtp',
+        oauth,
+        existing.smtp || { user: imap.user, password: imap.password },
+      ),
+      !oauth,
+    );
+  }
+
+  const account: Account = {
+    ...existing,
+    displayName: String(input?.displayName || existing.displayName),
+    color: String(input?.color || existing.color),
+    imap,
+    smtp,
+    oauth,
+    sync: normalizeSync(input?.sync, existing.sync),
+    signature:
+      input?.signature === undefined
+        ? (existing.signature ?? null)
+        : normalizeSignature(input.signature),
+    updatedAt: new Date().toISOString(),
+  };
+
+  await store.set(id, account);
+  if (!oauth && existing.oauth) {
+    await deleteTokens(existing.email);
+  }
+  await saveOAuthTokens(account, input);
+  applySync(account);
+  return account;
+};
+
+/**
+ * Sets or, with an empty input, removes an account's signature. Unlike other
+ * settings this leaves the sync worker alone.
+ */
+export const setAccountSignature = async (
+  id: string,
+  input: SignatureInput | null,
+) => {
+  const existing = store.get(id);
+  if (!existing) {
+    throw new AccountError('Account not found', 404);
+  }
+  const account: Account = {
+    ...existing,
+    signature: normalizeSignature(input),
+  };
+  await store.set(id, account);
+  return account;
+};
+
+/**
+ * Removes an account and stops syncing it. Emails already indexed for the
+ * account are kept.
+ */
+export const deleteAccount = async (id: string) => {
+  const existing = store.get(id);
+  if (!existing) {
+    throw new AccountError('Account not found', 404);
+  }
+  disconnectImap(existing.email);
+  await deleteTokens(existing.email);
+  await store.delete(id);
+  return existing;
+};
+
+/**
+ * Reconnects an account, e.g. once it has been authorized with OAuth2.
+ */
+export const restartAccount = (account: Account) => {
+  applySync(account);
+};
+
+/**
+ * Seeds the registry from the legacy IMAP_USER_n/IMAP_PASSWORD_n/IMAP_HOST_n
+ * variables the first time the app starts, before the registry was saved.
+ */
+const importAccountsFromEnv = async () => {
+  for (let n = 1; process.env[`IMAP_USER_${n}`]; n++) {
+    const email = process.env[`IMAP_USER_${n}`]!;
+    const password = process.env[`IMAP_PASSWORD_${n}`];
+    const host = process.env[`IMAP_HOST_${n}`];
+    if (!password || !host || getAccountByEmail(email)) {
+      continue;
+    }
+    // imap.example.com usually sends through smtp.example.com
+    const smtpHost =
+      process.env[`SMTP_HOST_${n}`] ||
+      (host.startsWith('imap.') ? `smtp.${host.slice(5)}` : undefined);
+    await createAccount({
+      email,
+      // The old hardcoded config accepted any certificate
+      imap: { host, password, rejectUnauthorized: false },
+      ...(smtpHost ? { smtp: { host: smtpHost } } : {}),
+    });
+    console.log(`📥 Imported account ${email} from environment.`);
+  }
+};
+
+/**
+ * Starts the sync workers of all enabled accounts.
+ */
+export const startAccounts = async () => {
+  // Only before the registry was ever saved, so accounts deleted through the
+  // API stay deleted
+  if (!store.exists()) {
+    await importAccountsFromEnv();
+    return;
+  }
+  listAccounts().forEach(applySync);
+};
@@ -11,6 +11,14 @@ export type EmailCategory =
   | 'Spam'
   | 'Out of Office'
   | 'Uncategorized';
+export const EMAIL_CATEGORIES: EmailCategory[] = [
+  'Interested',
+  'Meeting Booked',
+  'Not Interested',
+  'Spam',
+  'Out of Office',
+  'Uncategorized',
+];
 const CLASSIFICATION_MODEL = 'facebook/bart-large-mnli';
 
 /**
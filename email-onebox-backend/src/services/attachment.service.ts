@@ -0,0 +1,161 @@
+import crypto from 'crypto';
+import { Attachment } from 'mailparser';
+import mammoth from 'mammoth';
+import path from 'path';
+import { PDFParse } from 'pdf-parse';
+import { blobStore } from './blob-store.service';
+import { EmailAttachment } from './elasticsearch.service';
+
+// Attachments larger than this are stored but not searched
+const MAX_EXTRACT_BYTES = 20 * 1024 * 1024;
+// Cap per attachment so one huge spreadsheet can't bloat the index
+const MAX_TEXT_LENGTH = 200_000;
+
+type TextFormat = 'pdf' | 'docx' | 'csv' | 'txt';
+
+const FORMATS_BY_CONTENT_TYPE: Record<string, TextFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+    'docx',
+  'text/csv': 'csv',
+  'text/plain': 'txt',
+};
+
+const FORMATS_BY_EXTENSION: Record<string, TextFormat> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.csv': 'csv',
+  '.txt': 'txt',
+};
+
+/**
+ * Attachments are content-addressed, so the same file sent to several
+ * accounts or forwarded around is only written once.
+ */
+const blobKey = (checksum: string) =>
+  `attachments/${checksum.slice(0, 2)}/${checksum}`;
+
+/**
+ * Writes the attachments of a parsed email to the blob store.
+ * @param attachments The attachments as returned by mailparser.
+ * @returns Metadata for each attachment, in MIME order. The position doubles
+ * as the attachment's id since it is stable across re-parses.
+ */
+export const storeAttachments = async (
+  attachments: Attachment[],
+): Promise<EmailAttachment[]> => {
+  const stored: EmailAttachment[] = [];
+
+  for (const [index, attachment] of attachments.entries()) {
+    const content = attachment.content;
+    const checksum = crypto.createHash('sha256').update(content).digest('hex');
+    const key = blobKey(checksum);
+    if (!(await blobStore.exists(key))) {
+      await blobStore.put(key, content);
+    }
+
+    const id = String(index + 1);
+    stored.push({
+      id,
+      filename: attachment.filename || `attachment-${id}`,
+      contentType: attachment.contentType || 'application/octet-stream',
+      size: content.length,
+      contentId: attachment.contentId || null,
+      checksum,
+      inline: attachment.related || attachment.contentDisposition === 'inline',
+    });
+  }
+
+  return stored;
+};
+
+/**
+ * Reads an attachment's bytes back from the blob store.
+ * @returns The content, or null if the blob has gone missing.
+ */
+export const readAttachment = (attachment: EmailAttachment) =>
+  blobStore.get(blobKey(attachment.checksum));
+
+/**
+ * Works out whether an attachment is in a format we can read text from.
+ * Senders often label everything `application/octet-stream`, so the file
+ * extension is used as a fallback.
+ */
+const getTextFormat = (attachment: Attachment): TextFormat | null => {
+  const contentType = (attachment.contentType || '').toLowerCase();
+  const extension = path.extname(attachment.filename || '').toLowerCase();
+  return (
+    FORMATS_BY_CONTENT_TYPE[contentType] ||
+    FORMATS_BY_EXTENSION[extension] ||
+    null
+  );
+};
+
+const extractPdfText = async (content: Buffer) => {
+  const parser = new PDFParse({ data: content });
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+};
+
+const extractDocxText = async (content: Buffer) => {
+  const result = await mammoth.extractRawText({ buffer: content });
+  return result.value;
+};
+
+/**
+ * Extracts the searchable text of one attachment.
+ * @returns The text, or null for unsupported, oversized or unreadable files.
+ */
+const extractText = async (attachment: Attachment): Promise<string | null> => {
+  const format = getTextFormat(attachment);
+  if (
+    !format ||
+    attachment.related ||
+    attachment.content.length > MAX_EXTRACT_BYTES
+  ) {
+    return null;
+  }
+
+  try {
+    let text: string;
+    switch (format) {
+      case 'pdf':
+        text = await extractPdfText(attachment.content);
+        break;
+      case 'docx':
+        text = await extractDocxText(attachment.content);
+        break;
+      case 'csv':
+      case 'txt':
+        text = attachment.content.toString('utf8');
+        break;
+    }
+    return text.replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH);
+  } catch (error) {
+    console.error(
+      `Error extracting text from attachment ${attachment.filename}:`,
+      error,
+    );
+    return null;
+  }
+};
+
+/**
+ * Extracts the text of all readable attachments of an email so their
+ * contents can be searched.
+ * @returns The combined text, or an empty string if nothing was readable.
+ */
+export const extractAttachmentText = async (attachments: Attachment[]) => {
+  const texts: string[] = [];
+  for (const attachment of attachments) {
+    const text = await extractText(attachment);
+    if (text) {
+      texts.push(text);
+    }
+  }
+  return texts.join('\n\n');
+};
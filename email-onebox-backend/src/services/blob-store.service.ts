@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR } from './store.service';
+
+/**
+ * Storage for binary payloads such as attachments. Keys are opaque strings
+ * chosen by the caller; implementations only need to round-trip the bytes.
+ */
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Keeps blobs as plain files under `<DATA_DIR>/blobs`. Good enough for a
+ * single instance; swap in an object store for anything bigger.
+ */
+export class LocalBlobStore implements BlobStore {
+  constructor(private readonly rootDir: string) {}
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    const tmpPath = `${filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(tmpPath, data);
+    await fs.promises.rename(tmpPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  /**
+   * Maps a key to a file path, refusing keys that would escape the root.
+   */
+  private resolve(key: string) {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+/**
+ * The blob store used by the app. Only the local filesystem store exists so
+ * far; `BLOB_STORE` is the switch for adding others.
+ */
+const createBlobStore = (): BlobStore => {
+  const kind = process.env.BLOB_STORE || 'local';
+  if (kind !== 'local') {
+    console.warn(`Unknown BLOB_STORE "${kind}", using local storage.`);
+  }
+  return new LocalBlobStore(
+    process.env.BLOB_STORE_DIR || path.join(DATA_DIR, 'blobs'),
+  );
+};
+
+export const blobStore = createBlobStore();
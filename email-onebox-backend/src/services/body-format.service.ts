@@ -0,0 +1,119 @@
+import { convert } from 'html-to-text';
+import { marked } from 'marked';
+import sanitizeHtml from 'sanitize-html';
+
+/**
+ * How the body of an outgoing email is written: plain text, Markdown, or
+ * HTML from the rich-text toolbar.
+ */
+export type BodyFormat = 'plain' | 'markdown' | 'html';
+
+export const BODY_FORMATS: BodyFormat[] = ['plain', 'markdown', 'html'];
+
+/**
+ * The two alternatives every outgoing email carries.
+ */
+export interface RenderedBody {
+  text: string;
+  html: string;
+}
+
+// Tags and inline styles mail clients render reliably. Scripts, forms,
+// iframes and event handlers never make it into a message.
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    ...sanitizeHtml.defaults.allowedTags,
+    'img',
+    'span',
+    'del',
+    's',
+    'u',
+    'font',
+  ],
+  allowedAttributes: {
+    a: ['href', 'name', 'title', 'target', 'rel'],
+    img: ['src', 'alt', 'title', 'width', 'height'],
+    font: ['color'],
+    td: ['colspan', 'rowspan', 'align'],
+    th: ['colspan', 'rowspan', 'align'],
+    '*': ['style'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+  // Inline images refer to attachments by Content-ID
+  allowedSchemesByTag: { img: ['http', 'https', 'cid'] },
+  allowedStyles: {
+    '*': {
+      color: [/^#[0-9a-f]{3,8}$/i, /^rgba?\([\d\s.,%]+\)$/i, /^[a-z]+$/i],
+      'background-color': [
+        /^#[0-9a-f]{3,8}$/i,
+        /^rgba?\([\d\s.,%]+\)$/i,
+        /^[a-z]+$/i,
+      ],
+      'text-align': [/^(left|right|center|justify)$/],
+      'font-weight': [/^(normal|bold|\d{3})$/],
+      'font-style': [/^(normal|italic)$/],
+      'text-decoration': [/^(none|underline|line-through)$/],
+    },
+  },
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', {
+      target: '_blank',
+      rel: 'noopener noreferrer',
+    }),
+  },
+};
+
+// Quoted replies contain "Name <address>" lines that must not become tags
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Strips everything from HTML that could run code or phone home in the
+ * recipient's client, keeping ordinary formatting, links and images.
+ */
+export const sanitizeEmailHtml = (html: string) =>
+  sanitizeHtml(html, SANITIZE_OPTIONS);
+
+/**
+ * The readable plain-text version of an HTML body, with links kept as
+ * `text [url]`.
+ */
+export const htmlToText = (html: string) =>
+  convert(html, {
+    wordwrap: 78,
+    selectors: [
+      { selector: 'img', format: 'skip' },
+      { selector: 'a', options: { hideLinkHrefIfSameAsText: true } },
+    ],
+  });
+
+/**
+ * Renders a body into sanitized HTML and a plain-text alternative.
+ * Markdown keeps its source as the text part, which already reads well;
+ * raw HTML never reaches the message unsanitized.
+ */
+export const renderBody = (
+  body: string,
+  format: BodyFormat = 'plain',
+): RenderedBody => {
+  switch (format) {
+    case 'markdown': {
+      const html = marked.parse(body, {
+        async: false,
+        gfm: true,
+        breaks: true,
+      });
+      return { text: body, html: sanitizeEmailHtml(html) };
+    }
+    case 'html': {
+      const html = sanitizeEmailHtml(body);
+      return { text: htmlToText(html), html };
+    }
+    default:
+      return { text: body, html: escapeHtml(body).replace(/\n/g, '<br>') };
+  }
+};
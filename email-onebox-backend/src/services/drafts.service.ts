@@ -0,0 +1,307 @@
+import crypto from 'crypto';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import {
+  BODY_FORMATS,
+  BodyFormat,
+  htmlToText,
+  sanitizeEmailHtml,
+} from './body-format.service';
+import { createMessageId } from './email.service';
+import { deleteEmailById, IMAP_FLAGS } from './elasticsearch.service';
+import { getImapConnection } from './imap.service';
+import { JsonFileStore } from './store.service';
+
+export type DraftPriority = 'low' | 'normal' | 'high';
+
+const PRIORITIES: DraftPriority[] = ['low', 'normal', 'high'];
+
+/**
+ * An unsent email, saved while it is being written so it survives closing
+ * the composer or reloading the page.
+ */
+export interface Draft {
+  id: string;
+  from: string;
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+  format: BodyFormat;
+  priority: DraftPriority;
+  // Message-ID of the copy in the IMAP Drafts folder, kept across revisions
+  messageId: string;
+  // The account whose Drafts folder holds the copy, if any
+  imapAccount: string | null;
+  syncedAt: string | null;
+  syncError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DraftInput = Partial<
+  Pick<
+    Draft,
+    'from' | 'to' | 'cc' | 'bcc' | 'subject' | 'body' | 'format' | 'priority'
+  >
+>;
+
+/**
+ * A draft as sent to the API. normalizeInput checks the type of each field.
+ */
+export type DraftRequest = { [Field in keyof DraftInput]?: unknown };
+
+/**
+ * An invalid draft or an unknown one, carrying the HTTP status the API
+ * should answer with.
+ */
+export class DraftError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'DraftError';
+  }
+}
+
+const TEXT_FIELDS = ['from', 'to', 'cc', 'bcc', 'subject', 'body'] as const;
+const MAX_BODY_LENGTH = 1024 * 1024;
+
+// Copying drafts to the IMAP Drafts folder is opt-in. The composer autosaves
+// every few seconds, so only a revision that stayed unchanged for a while is
+// appended.
+const IMAP_SYNC_ENABLED = process.env.DRAFTS_IMAP_SYNC === 'true';
+const IMAP_SYNC_DELAY_MS =
+  Number(process.env.DRAFTS_IMAP_SYNC_DELAY_SECONDS || 30) * 1000;
+
+const store = new JsonFileStore<Draft>('drafts');
+const syncTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Picks the known fields out of a request body and checks their types.
+ */
+const normalizeInput = (input: DraftRequest | undefined): DraftInput => {
+  const draft: DraftInput = {};
+  for (const field of TEXT_FIELDS) {
+    const value = input?.[field];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      throw new DraftError(`Invalid ${field}: expected a string`, 400);
+    }
+    draft[field] = value;
+  }
+
+  if ((draft.body?.length || 0) > MAX_BODY_LENGTH) {
+    throw new DraftError('Draft body is too long', 413);
+  }
+  if (input?.priority !== undefined && input.priority !== null) {
+    const priority = PRIORITIES.find(candidate => candidate === input.priority);
+    if (!priority) {
+      throw new DraftError(`Invalid priority: ${String(input.priority)}`, 400);
+    }
+    draft.priority = priority;
+  }
+  if (input?.format !== undefined && input.format !== null) {
+    const format = BODY_FORMATS.find(candidate => candidate === input.format);
+    if (!format) {
+      throw new DraftError(`Invalid format: ${String(input.format)}`, 400);
+    }
+    draft.format = format;
+  }
+  return draft;
+};
+
+const buildRaw = (draft: Draft) => {
+  const message = new MailComposer({
+    from: draft.from,
+    to: draft.to || undefined,
+    cc: draft.cc || undefined,
+    bcc: draft.bcc || undefined,
+    subject: draft.subject,
+    // Other clients resume HTML drafts from their HTML part
+    ...(draft.format === 'html'
+      ? { html: sanitizeEmailHtml(draft.body), text: htmlToText(draft.body) }
+      : { text: draft.body }),
+    priority: draft.priority,
+    messageId: draft.messageId,
+    date: new Date(draft.updatedAt),
+  }).compile();
+  // Keep Bcc in the stored copy so it is not lost when the draft is resumed
+  message.keepBcc = true;
+  return message.build();
+};
+
+/**
+ * Removes a draft's copy from an account's Drafts folder and from the index.
+ */
+const removeFromImap = async (account: string, messageId: string) => {
+  const connection = getImapConnection(account);
+  const folder = connection?.findFolder('drafts');
+  if (!connection || !folder) {
+    return;
+  }
+  try {
+    await connection.deleteMessage(folder, messageId);
+    await deleteEmailById(messageId);
+  } catch (error) {
+    console.error(`Error removing draft from ${folder.folder}:`, error);
+  }
+};
+
+/**
+ * Replaces the copy of a draft in the sender's Drafts folder with the
+ * current revision. Failures are recorded on the draft, not thrown: the
+ * draft itself is safe on the server either way.
+ */
+const syncToImap = async (id: string) => {
+  const draft = store.get(id);
+  if (!draft) {
+    return;
+  }
+
+  const connection = getImapConnection(draft.from);
+  const folder = connection?.findFolder('drafts');
+  if (!connection || !folder) {
+    return;
+  }
+
+  try {
+    if (draft.imapAccount && draft.imapAccount !== draft.from) {
+      await removeFromImap(draft.imapAccount, draft.messageId);
+    }
+    await connection.deleteMessage(folder, draft.messageId);
+    await connection.appendMessage(await buildRaw(draft), folder, [
+      IMAP_FLAGS.seen,
+      IMAP_FLAGS.draft,
+    ]);
+  } catch (error) {
+    console.error(`Error saving draft to ${folder.folder}:`, error);
+    const current = store.get(id);
+    if (current) {
+      await store.set(id, {
+        ...current,
+        syncError: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return;
+  }
+
+  const current = store.get(id);
+  if (!current) {
+    // Discarded while it was being appended
+    await removeFromImap(draft.from, draft.messageId);
+    return;
+  }
+  await store.set(id, {
+    ...current,
+    imapAccount: draft.from,
+    syncedAt: new Date().toISOString(),
+    syncError: null,
+  });
+};
+
+const scheduleImapSync = (id: string) => {
+  if (!IMAP_SYNC_ENABLED) {
+    return;
+  }
+  clearTimeout(syncTimers.get(id));
+  syncTimers.set(
+    id,
+    setTimeout(() => {
+      syncTimers.delete(id);
+      syncToImap(id).catch(error =>
+        console.error(`Error syncing draft ${id}:`, error),
+      );
+    }, IMAP_SYNC_DELAY_MS),
+  );
+};
+
+/**
+ * Drafts, most recently edited first, optionally only those of one account.
+ */
+export const listDrafts = (account?: string) =>
+  store
+    .values()
+    .filter(
+      draft => !account || draft.from.toLowerCase() === account.toLowerCase(),
+    )
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+export const getDraft = (id: string) => store.get(id);
+
+export const createDraft = async (input: DraftRequest) => {
+  const fields = normalizeInput(input);
+  if (!fields.from) {
+    throw new DraftError('Missing required field: from', 400);
+  }
+
+  const now = new Date().toISOString();
+  const draft: Draft = {
+    id: crypto.randomUUID(),
+    from: fields.from,
+    to: fields.to || '',
+    cc: fields.cc || '',
+    bcc: fields.bcc || '',
+    subject: fields.subject || '',
+    body: fields.body || '',
+    format: fields.format || 'plain',
+    priority: fields.priority || 'normal',
+    messageId: createMessageId(fields.from),
+    imapAccount: null,
+    syncedAt: null,
+    syncError: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store.set(draft.id, draft);
+  scheduleImapSync(draft.id);
+  return draft;
+};
+
+/**
+ * Saves a new revision of a draft. Fields left out of the input keep their
+ * current values.
+ */
+export const updateDraft = async (id: string, input: DraftRequest) => {
+  const existing = store.get(id);
+  if (!existing) {
+    throw new DraftError('Draft not found', 404);
+  }
+
+  const fields = normalizeInput(input);
+  if (fields.from === '') {
+    throw new DraftError('from cannot be empty', 400);
+  }
+  const draft: Draft = {
+    ...existing,
+    ...fields,
+    updatedAt: new Date().toISOString(),
+  };
+  await store.set(id, draft);
+  scheduleImapSync(id);
+  return draft;
+};
+
+/**
+ * Discards a draft, e.g. once it has been sent, along with its copy in the
+ * IMAP Drafts folder.
+ */
+export const deleteDraft = async (id: string) => {
+  const draft = store.get(id);
+  if (!draft) {
+    throw new DraftError('Draft not found', 404);
+  }
+
+  clearTimeout(syncTimers.get(id));
+  syncTimers.delete(id);
+  await store.delete(id);
+  if (draft.imapAccount) {
+    removeFromImap(draft.imapAccount, draft.messageId).catch(error =>
+      console.error(`Error removing draft ${id}:`, error),
+    );
+  }
+  return draft;
+};
@@ -1,10 +1,182 @@
-import { Client } from '@elastic/elasticsearch';
+import { Client, errors, estypes } from '@elastic/elasticsearch';
+import crypto from 'crypto';
 import { AddressObject, ParsedMail } from 'mailparser';
 import { EmailCategory } from './ai.service';
+import { compileSearchQuery, SearchQueryError } from './search-query.service';
 
 const client = new Client({ node: 'http://localhost:9200' });
+// The alias every read and write goes through; see migrateEmailIndex
 const INDEX_NAME = 'emails';
 
+/**
+ * The well-known purpose of a mailbox, derived from its special-use flag
+ * (RFC 6154) or, failing that, from its name.
+ */
+export type FolderRole =
+  | 'inbox'
+  | 'sent'
+  | 'drafts'
+  | 'archive'
+  | 'trash'
+  | 'junk';
+
+/**
+ * Where an email lives on the IMAP server. UIDs are only meaningful together
+ * with the folder's UIDVALIDITY.
+ */
+export interface EmailLocation {
+  folder: string;
+  folderRole: FolderRole | null;
+  uid: number | null;
+  uidValidity: number | null;
+}
+
+/**
+ * IMAP system flags mirrored onto email documents.
+ */
+export const IMAP_FLAGS = {
+  seen: '\\Seen',
+  flagged: '\\Flagged',
+  answered: '\\Answered',
+  deleted: '\\Deleted',
+  draft: '\\Draft',
+};
+
+/**
+ * The flag-derived fields stored on each email document.
+ */
+export interface EmailFlagFields {
+  flags: string[];
+  isRead: boolean;
+  isStarred: boolean;
+  isAnswered: boolean;
+  isDeleted: boolean;
+}
+
+/**
+ * Metadata for one attachment. The bytes live in the blob store, keyed by
+ * checksum, so identical files are only stored once.
+ */
+export interface EmailAttachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  contentId: string | null;
+  checksum: string;
+  inline: boolean;
+}
+
+/**
+ * The attachment fields stored on each email document. Inline parts such as
+ * embedded images don't count towards `hasAttachments`. `attachmentText` holds
+ * the text extracted from readable attachments for full-text search.
+ */
+export interface EmailAttachmentFields {
+  attachments: EmailAttachment[];
+  hasAttachments: boolean;
+  attachmentText: string;
+}
+
+/**
+ * The conversation fields stored on each email document. `threadId` is
+ * shared by every message of a conversation.
+ */
+export interface EmailThreadFields {
+  threadId: string;
+  normalizedSubject: string;
+  inReplyTo: string | null;
+  references: string[];
+}
+
+/**
+ * The shape of an email document as stored in the index.
+ */
+export interface EmailDocument
+  extends EmailLocation,
+    EmailFlagFields,
+    EmailAttachmentFields,
+    EmailThreadFields {
+  from?: string;
+  to?: string;
+  cc?: string;
+  replyTo?: string;
+  subject?: string;
+  text?: string;
+  date?: string;
+  messageId: string;
+  account: string;
+  category: EmailCategory;
+  previousFolder?: string;
+}
+
+/**
+ * Derives the boolean flag fields from a raw IMAP flag list.
+ */
+export const getFlagFields = (flags: string[]): EmailFlagFields => ({
+  flags,
+  isRead: flags.includes(IMAP_FLAGS.seen),
+  isStarred: flags.includes(IMAP_FLAGS.flagged),
+  isAnswered: flags.includes(IMAP_FLAGS.answered),
+  isDeleted: flags.includes(IMAP_FLAGS.deleted),
+});
+
+/**
+ * Derives the attachment fields from a list of stored attachments and the
+ * text extracted from them.
+ */
+export const getAttachmentFields = (
+  attachments: EmailAttachment[],
+  attachmentText: string,
+): EmailAttachmentFields => ({
+  attachments,
+  hasAttachments: attachments.some(attachment => !attachment.inline),
+  attachmentText,
+});
+
+/**
+ * Search filters beyond the free-text query. With `threads` set, only the
+ * latest matching message of each conversation is returned.
+ */
+export interface EmailSearchFilters {
+  hasAttachments?: boolean;
+  threads?: boolean;
+}
+
+/**
+ * Which page of results to return: `cursor` is the `nextCursor` of the
+ * previous page, or absent for the first one.
+ */
+export interface EmailSearchPage {
+  size?: number;
+  cursor?: string | null;
+}
+
+/**
+ * Fragments of the fields a search matched, with each match wrapped in
+ * HIGHLIGHT_START and HIGHLIGHT_END. The fragments are plain text, not HTML.
+ */
+export type EmailHighlight = Partial<
+  Record<'subject' | 'from' | 'text' | 'attachmentText', string[]>
+>;
+
+// Private-use characters can't clash with email text or be taken for markup
+export const HIGHLIGHT_START = '\uE000';
+export const HIGHLIGHT_END = '\uE001';
+
+/**
+ * One page of search results. `total` counts every match (conversations
+ * when searching threads) and `nextCursor` is null on the last page.
+ */
+export interface EmailSearchResult {
+  emails: (EmailDocument & {
+    matchedInAttachment: boolean;
+    highlight: EmailHighlight;
+  })[];
+  total: number;
+  nextCursor: string | null;
+}
+
 /**
  * A helper function to safely get address text from mailparser's AddressObject.
  * It handles both single addresses and arrays of addresses.
@@ -22,35 +194,410 @@ export const getAddressText = (
 };
 
 /**
- * Creates the 'emails' index in Elasticsearch if it doesn't already exist.
- * This function defines the structure (mapping) of the email documents.
+ * Analysis settings of the email index. Text is matched regardless of case
+ * and accents, so "resume" finds "Résumé".
+ */
+const EMAIL_INDEX_SETTINGS = {
+  analysis: {
+    analyzer: {
+      email_text: {
+        type: 'custom' as const,
+        tokenizer: 'standard',
+        filter: ['lowercase', 'asciifolding'],
+      },
+    },
+  },
+};
+
+const TEXT_FIELD: estypes.MappingTextProperty = {
+  type: 'text',
+  analyzer: 'email_text',
+};
+
+// Text that is also kept whole, for exact matches, sorting and aggregations
+const TEXT_WITH_KEYWORD_FIELD: estypes.MappingTextProperty = {
+  ...TEXT_FIELD,
+  fields: { keyword: { type: 'keyword', ignore_above: 256 } },
+};
+
+/**
+ * Field mappings of the email documents. New fields are added to the
+ * existing index on the next start; changing a field (or the settings
+ * above) migrates the index to a new version instead.
+ */
+const EMAIL_PROPERTIES: Record<string, estypes.MappingProperty> = {
+  from: TEXT_WITH_KEYWORD_FIELD,
+  to: TEXT_WITH_KEYWORD_FIELD,
+  cc: TEXT_WITH_KEYWORD_FIELD,
+  replyTo: TEXT_WITH_KEYWORD_FIELD,
+  subject: TEXT_WITH_KEYWORD_FIELD,
+  text: TEXT_FIELD,
+  date: { type: 'date' },
+  messageId: { type: 'keyword' },
+  account: { type: 'keyword' },
+  folder: { type: 'keyword' },
+  folderRole: { type: 'keyword' },
+  previousFolder: { type: 'keyword' },
+  uid: { type: 'long' },
+  uidValidity: { type: 'long' },
+  flags: { type: 'keyword' },
+  isRead: { type: 'boolean' },
+  isStarred: { type: 'boolean' },
+  isAnswered: { type: 'boolean' },
+  isDeleted: { type: 'boolean' },
+  attachments: {
+    properties: {
+      id: { type: 'keyword' },
+      filename: TEXT_WITH_KEYWORD_FIELD,
+      contentType: { type: 'keyword' },
+      size: { type: 'long' },
+      contentId: { type: 'keyword' },
+      checksum: { type: 'keyword' },
+      inline: { type: 'boolean' },
+    },
+  },
+  hasAttachments: { type: 'boolean' },
+  attachmentText: TEXT_FIELD,
+  threadId: { type: 'keyword' },
+  normalizedSubject: { type: 'keyword' },
+  inReplyTo: { type: 'keyword' },
+  references: { type: 'keyword' },
+  category: { type: 'keyword' },
+};
+
+const getChecksum = (value: unknown) =>
+  crypto
+    .createHash('sha256')
+    .update(JSON.stringify(value))
+    .digest('hex')
+    .slice(0, 16);
+
+/**
+ * Identify the settings and mappings an index was built with. They are
+ * stored in the index's `_meta`, so a changed mapping is noticed on start.
+ */
+const MAPPING_CHECKSUM = getChecksum([EMAIL_INDEX_SETTINGS, EMAIL_PROPERTIES]);
+const SETTINGS_CHECKSUM = getChecksum(EMAIL_INDEX_SETTINGS);
+
+const INDEX_META = {
+  checksum: MAPPING_CHECKSUM,
+  settingsChecksum: SETTINGS_CHECKSUM,
+};
+
+// emails_v2, emails_v3, ...; the plain "emails" index of older installs
+// counts as version 1
+const VERSIONED_INDEX = new RegExp(`^${INDEX_NAME}_v(\\d+)$`);
+
+const MIGRATION_POLL_INTERVAL_MS = 1000;
+
+/**
+ * A copy of the emails into a new version of the index, switched in behind
+ * the alias once complete. `copied` counts the documents written to the new
+ * index over all passes, `total` those in the old one when it started.
+ */
+export interface IndexMigration {
+  from: string | null;
+  to: string;
+  reason: 'created' | 'mapping-changed' | 'requested';
+  status: 'running' | 'completed' | 'failed';
+  total: number;
+  copied: number;
+  startedAt: string;
+  finishedAt: string | null;
+  error: string | null;
+}
+
+/**
+ * A reindex that can't be started, carrying the HTTP status the API should
+ * answer with.
+ */
+export class IndexMigrationError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'IndexMigrationError';
+  }
+}
+
+interface CurrentIndex {
+  index: string;
+  version: number;
+  // false for the plain "emails" index of older installs
+  aliased: boolean;
+  checksum: string | null;
+  settingsChecksum: string | null;
+}
+
+let lastMigration: IndexMigration | null = null;
+
+/**
+ * The running migration, or the last one since the server started.
+ */
+export const getIndexMigration = () => lastMigration;
+
+const getIndexVersion = (index: string) =>
+  Number(index.match(VERSIONED_INDEX)?.[1] || 1);
+
+/**
+ * The index the emails are read from and written to, if there is one yet.
+ */
+const getCurrentIndex = async (): Promise<CurrentIndex | null> => {
+  let index: string;
+  let aliased = true;
+  if (await client.indices.existsAlias({ name: INDEX_NAME })) {
+    const aliases = await client.indices.getAlias({ name: INDEX_NAME });
+    index = Object.keys(aliases).sort(
+      (a, b) => getIndexVersion(b) - getIndexVersion(a),
+    )[0]!;
+  } else if (await client.indices.exists({ index: INDEX_NAME })) {
+    index = INDEX_NAME;
+    aliased = false;
+  } else {
+    return null;
+  }
+
+  const mappings = await client.indices.getMapping({ index });
+  const meta = mappings[index]?.mappings._meta;
+  return {
+    index,
+    version: getIndexVersion(index),
+    aliased,
+    checksum: typeof meta?.checksum === 'string' ? meta.checksum : null,
+    settingsChecksum:
+      typeof meta?.settingsChecksum === 'string' ? meta.settingsChecksum : null,
+  };
+};
+
+// The parts of a reindex task's status we report
+interface ReindexStatus {
+  created?: number;
+  updated?: number;
+  failures?: { cause?: unknown }[];
+}
+
+/**
+ * Copies every document of `source` that `dest` doesn't have in the same or
+ * a newer version, and waits for the copy to finish.
+ */
+const copyDocuments = async (
+  source: string,
+  dest: string,
+  migration: IndexMigration,
+) => {
+  const copiedBefore = migration.copied;
+  const { task } = await client.reindex({
+    source: { index: source },
+    dest: { index: dest, version_type: 'external' },
+    conflicts: 'proceed',
+    refresh: true,
+    wait_for_completion: false,
+  });
+
+  for (;;) {
+    const result = await client.tasks.get({ task_id: String(task) });
+    const status = (result.completed ? result.response : result.task.status) as
+      | ReindexStatus
+      | undefined;
+    migration.copied =
+      copiedBefore + (status?.created || 0) + (status?.updated || 0);
+
+    if (result.completed) {
+      const failure = result.error?.reason || status?.failures?.[0]?.cause;
+      if (failure) {
+        throw new Error(
+          typeof failure === 'string' ? failure : JSON.stringify(failure),
+        );
+      }
+      return;
+    }
+    await new Promise(resolve =>
+      setTimeout(resolve, MIGRATION_POLL_INTERVAL_MS),
+    );
+  }
+};
+
+/**
+ * Builds `migration.to` and moves the alias onto it. Writes keep going to
+ * the old index while its documents are copied, so a second pass picks up
+ * what changed meanwhile; external versioning copies a document again only
+ * when the old index has a newer version of it. Documents deleted during the
+ * copy are copied anyway and come back on the next sync.
  */
-export const createEmailIndexIfNotExists = async () => {
-  const indexExists = await client.indices.exists({ index: INDEX_NAME });
-  if (!indexExists) {
-    console.log(`Index "${INDEX_NAME}" does not exist. Creating...`);
+const runMigration = async (
+  current: CurrentIndex | null,
+  migration: IndexMigration,
+) => {
+  const target = migration.to;
+  let switched = false;
+  try {
+    if (await client.indices.exists({ index: target })) {
+      // Left over from a migration that didn't finish
+      await client.indices.delete({ index: target });
+    }
     await client.indices.create({
-      index: INDEX_NAME,
-      body: {
-        mappings: {
-          properties: {
-            from: { type: 'text' },
-            to: { type: 'text' },
-            subject: { type: 'text' },
-            text: { type: 'text' },
-            date: { type: 'date' },
-            messageId: { type: 'keyword' },
-            account: { type: 'keyword' },
-            folder: { type: 'keyword' },
-            category: { type: 'keyword' },
-          },
-        },
+      index: target,
+      settings: EMAIL_INDEX_SETTINGS,
+      mappings: {
+        _meta: INDEX_META,
+        properties: EMAIL_PROPERTIES,
       },
     });
-    console.log(`Index "${INDEX_NAME}" created successfully.`);
-  } else {
-    console.log(`Index "${INDEX_NAME}" already exists.`);
+
+    if (current) {
+      const { count } = await client.count({ index: current.index });
+      migration.total = count;
+      await copyDocuments(current.index, target, migration);
+      await copyDocuments(current.index, target, migration);
+    }
+
+    // One atomic switch, so searches never see an empty or missing index.
+    // The plain "emails" index has to go for the alias to take its name.
+    await client.indices.updateAliases({
+      actions: [
+        ...(current?.aliased
+          ? [{ remove: { index: current.index, alias: INDEX_NAME } }]
+          : []),
+        ...(current && !current.aliased
+          ? [{ remove_index: { index: current.index } }]
+          : []),
+        { add: { index: target, alias: INDEX_NAME } },
+      ],
+    });
+    switched = true;
+
+    if (current?.aliased) {
+      // Changes that reached the old index between the last pass and the
+      // switch
+      await copyDocuments(current.index, target, migration);
+      await client.indices.delete({ index: current.index });
+    }
+
+    Object.assign(migration, {
+      status: 'completed',
+      finishedAt: new Date().toISOString(),
+    });
+    console.log(
+      `✅ Index "${INDEX_NAME}" now points to "${target}" (${migration.copied} documents copied).`,
+    );
+  } catch (error) {
+    Object.assign(migration, {
+      status: 'failed',
+      finishedAt: new Date().toISOString(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    console.error(
+      `❌ Migration of "${INDEX_NAME}" to "${target}" failed:`,
+      error,
+    );
+    if (!switched) {
+      await client.indices
+        .delete({ index: target }, { ignore: [404] })
+        .catch(() => undefined);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Maps fields added to EMAIL_PROPERTIES on the current index in place, so
+ * they get their types before documents carrying them are indexed. Only
+ * works when the settings are unchanged and no existing field changed.
+ * @returns Whether the index is up to date now.
+ */
+const putNewMappings = async (current: CurrentIndex) => {
+  if (current.settingsChecksum !== SETTINGS_CHECKSUM) {
+    return false;
+  }
+  try {
+    await client.indices.putMapping({
+      index: current.index,
+      _meta: INDEX_META,
+      properties: EMAIL_PROPERTIES,
+    });
+    console.log(`Mapped new fields on "${current.index}".`);
+    return true;
+  } catch (error) {
+    console.warn(
+      `Mappings of "${current.index}" can't be updated in place:`,
+      error,
+    );
+    return false;
+  }
+};
+
+/**
+ * Starts a migration to the next version of the index if there is no index
+ * yet, its mappings are out of date, or `force` asks for a rebuild.
+ * @returns The migration and a promise of its end, or null if the index is
+ * up to date.
+ */
+const startMigration = async (force: boolean) => {
+  const current = await getCurrentIndex();
+  if (
+    current &&
+    !force &&
+    (current.checksum === MAPPING_CHECKSUM || (await putNewMappings(current)))
+  ) {
+    return null;
+  }
+  if (lastMigration?.status === 'running') {
+    throw new IndexMigrationError(
+      `A reindex to "${lastMigration.to}" is already running`,
+      409,
+    );
+  }
+
+  const migration: IndexMigration = {
+    from: current?.index || null,
+    to: `${INDEX_NAME}_v${(current?.version || 0) + 1}`,
+    reason: !current
+      ? 'created'
+      : current.checksum === MAPPING_CHECKSUM
+        ? 'requested'
+        : 'mapping-changed',
+    status: 'running',
+    total: 0,
+    copied: 0,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    error: null,
+  };
+  lastMigration = migration;
+  console.log(
+    current
+      ? `🔄 Reindexing "${current.index}" into "${migration.to}" (${migration.reason})...`
+      : `Index "${INDEX_NAME}" does not exist. Creating "${migration.to}"...`,
+  );
+  return { migration, done: runMigration(current, migration) };
+};
+
+/**
+ * Makes sure the `emails` alias points to an index built with the current
+ * settings and mappings, creating it or reindexing into a new version
+ * (emails_v2, emails_v3, ...) first. Run on start, before anything is
+ * indexed.
+ */
+export const migrateEmailIndex = async () => {
+  const started = await startMigration(false);
+  if (!started) {
+    console.log(`Index "${INDEX_NAME}" is up to date.`);
+    return;
   }
+  await started.done;
+};
+
+/**
+ * Rebuilds the index into a new version in the background, while it stays
+ * searchable and writable. Follow it with getIndexMigration.
+ * @throws IndexMigrationError when a reindex is already running.
+ */
+export const reindexEmails = async () => {
+  const { migration, done } = (await startMigration(true))!;
+  // Failures are logged and recorded on the migration
+  done.catch(() => undefined);
+  return migration;
 };
 
 /**
@@ -61,6 +608,10 @@ export const indexEmail = async (
   email: ParsedMail,
   accountIdentifier: string,
   category: EmailCategory,
+  location: EmailLocation,
+  flags: string[],
+  attachmentFields: EmailAttachmentFields,
+  threadFields: EmailThreadFields,
 ) => {
   try {
     if (!email.messageId) {
@@ -70,15 +621,20 @@ export const indexEmail = async (
     await client.index({
       index: INDEX_NAME,
       id: email.messageId,
-      body: {
+      document: {
         from: getAddressText(email.from),
         to: getAddressText(email.to),
+        cc: getAddressText(email.cc),
+        replyTo: getAddressText(email.replyTo),
         subject: email.subject,
         text: email.text,
         date: email.date,
         messageId: email.messageId,
         account: accountIdentifier,
-        folder: 'INBOX',
+        ...location,
+        ...getFlagFields(flags),
+        ...attachmentFields,
+        ...threadFields,
         category: category,
       },
     });
@@ -87,45 +643,559 @@ export const indexEmail = async (
   }
 };
 
+const isNotFound = (error: unknown) =>
+  error instanceof errors.ResponseError && error.meta.statusCode === 404;
+
 /**
- * Searches for emails in Elasticsearch based on a text query and an account filter.
- * Returns emails sorted by date in descending order.
+ * Fetches a single indexed email by its Message-ID.
  */
-export const searchEmails = async (query: string, account: string) => {
+export const getEmailById = async (
+  messageId: string,
+): Promise<EmailDocument | null> => {
   try {
-    const mustClauses: any[] = [];
+    const response = await client.get<EmailDocument>({
+      index: INDEX_NAME,
+      id: messageId,
+    });
+    return response._source || null;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  }
+};
 
-    if (query) {
-      mustClauses.push({
-        multi_match: {
-          query: query,
-          fields: ['from', 'to', 'subject', 'text'],
-        },
-      });
+/**
+ * Removes an email from the index, e.g. a draft that was discarded or sent.
+ * @returns Whether the email was indexed.
+ */
+export const deleteEmailById = async (messageId: string) => {
+  try {
+    await client.delete({ index: INDEX_NAME, id: messageId });
+    return true;
+  } catch (error) {
+    if (isNotFound(error)) {
+      return false;
     }
+    throw error;
+  }
+};
 
-    if (account) {
-      mustClauses.push({
-        term: { 'account.keyword': account },
-      });
+/**
+ * Finds the conversation one of the given messages belongs to. Emails are
+ * stored under their Message-ID, so this is a real-time get: a parent
+ * indexed moments ago is found before the index refreshes.
+ * @param messageIds Message-IDs to look for, e.g. from a References header.
+ * @returns The threadId of the first stored message in that order, if any.
+ */
+export const findThreadIdByMessageIds = async (messageIds: string[]) => {
+  if (messageIds.length === 0) {
+    return undefined;
+  }
+  const response = await client.mget<EmailDocument>({
+    index: INDEX_NAME,
+    ids: messageIds,
+    _source: ['threadId'],
+  });
+  for (const doc of response.docs) {
+    if ('found' in doc && doc.found && doc._source?.threadId) {
+      return doc._source.threadId;
     }
+  }
+  return undefined;
+};
 
-    const response = await client.search({
-      index: INDEX_NAME,
-      body: {
-        query: {
-          bool: {
-            must: mustClauses.length > 0 ? mustClauses : { match_all: {} },
+// How long a conversation can be joined by subject alone
+export const SUBJECT_THREAD_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Finds the most recent conversation in an account with the given normalized
+ * subject that was active in the SUBJECT_THREAD_WINDOW_MS before `date`.
+ */
+export const findThreadIdBySubject = async (
+  account: string,
+  normalizedSubject: string,
+  date: Date,
+) => {
+  const response = await client.search<EmailDocument>({
+    index: INDEX_NAME,
+    size: 1,
+    _source: ['threadId'],
+    query: {
+      bool: {
+        filter: [
+          { term: { account } },
+          { term: { normalizedSubject } },
+          { exists: { field: 'threadId' } },
+          {
+            range: {
+              date: {
+                gte: new Date(
+                  date.getTime() - SUBJECT_THREAD_WINDOW_MS,
+                ).toISOString(),
+                lte: date.toISOString(),
+              },
+            },
           },
+        ],
+      },
+    },
+    sort: [{ date: { order: 'desc' } }],
+  });
+  return response.hits.hits[0]?._source?.threadId;
+};
+
+/**
+ * Fetches every message of the given conversations, oldest first.
+ * @param threadIds The conversations to load.
+ * @param sourceFields Limits the returned fields, e.g. for summaries.
+ */
+export const getEmailsByThreadIds = async (
+  threadIds: string[],
+  sourceFields?: string[],
+): Promise<EmailDocument[]> => {
+  if (threadIds.length === 0) {
+    return [];
+  }
+  const response = await client.search<EmailDocument>({
+    index: INDEX_NAME,
+    size: 1000,
+    _source: sourceFields || { excludes: ['attachmentText'] },
+    query: { terms: { threadId: threadIds } },
+    sort: [{ date: { order: 'asc' } }],
+  });
+  return response.hits.hits
+    .map(hit => hit._source)
+    .filter((email): email is EmailDocument => Boolean(email));
+};
+
+/**
+ * Fetches a page of emails that have not been assigned to a conversation
+ * yet, i.e. that were indexed before threading existed.
+ * @param size The page size.
+ * @param after The last Message-ID of the previous page.
+ */
+export const getEmailsWithoutThread = async (
+  size: number,
+  after?: string,
+): Promise<EmailDocument[]> => {
+  const response = await client.search<EmailDocument>({
+    index: INDEX_NAME,
+    size,
+    _source: ['messageId', 'account', 'subject', 'date'],
+    query: { bool: { must_not: { exists: { field: 'threadId' } } } },
+    sort: [{ messageId: { order: 'asc' } }],
+    ...(after ? { search_after: [after] } : {}),
+  });
+  return response.hits.hits
+    .map(hit => hit._source)
+    .filter((email): email is EmailDocument => Boolean(email));
+};
+
+/**
+ * Brings the stored flags of a folder's emails in line with the server.
+ * Only documents whose flags actually changed are rewritten.
+ * @param account The account the folder belongs to.
+ * @param folder The folder path.
+ * @param flagsByUid The current flags on the server, keyed by UID.
+ * @returns The number of documents that were updated.
+ */
+export const syncEmailFlags = async (
+  account: string,
+  folder: string,
+  flagsByUid: Map<number, string[]>,
+) => {
+  const uids = Array.from(flagsByUid.keys());
+  const batchSize = 500;
+  let updated = 0;
+
+  for (let i = 0; i < uids.length; i += batchSize) {
+    const batch = uids.slice(i, i + batchSize);
+    const response = await client.search<EmailDocument>({
+      index: INDEX_NAME,
+      size: batch.length,
+      _source: ['uid', 'flags'],
+      query: {
+        bool: {
+          filter: [
+            { term: { account } },
+            { term: { folder } },
+            { terms: { uid: batch } },
+          ],
+        },
+      },
+    });
+
+    const operations: (
+      | estypes.BulkOperationContainer
+      | estypes.BulkUpdateAction<EmailDocument, EmailFlagFields>
+    )[] = [];
+    response.hits.hits.forEach(hit => {
+      const stored = hit._source;
+      if (!stored || stored.uid === null || !hit._id) {
+        return;
+      }
+      const current = flagsByUid.get(stored.uid) || [];
+      const previous = stored.flags || [];
+      const unchanged =
+        current.length === previous.length &&
+        current.every(flag => previous.includes(flag));
+      if (!unchanged) {
+        operations.push(
+          { update: { _index: INDEX_NAME, _id: hit._id } },
+          { doc: getFlagFields(current) },
+        );
+      }
+    });
+
+    if (operations.length > 0) {
+      await client.bulk({ operations });
+      updated += operations.length / 2;
+    }
+  }
+
+  return updated;
+};
+
+/**
+ * Applies a partial update to an indexed email, e.g. when it shows up in
+ * another folder than the one it was first indexed from.
+ */
+export const updateEmailFields = async (
+  messageId: string,
+  fields: Record<string, unknown>,
+) => {
+  try {
+    await client.update({ index: INDEX_NAME, id: messageId, doc: fields });
+  } catch (error) {
+    console.error('Error updating email:', error);
+  }
+};
+
+// Name of the query clause used to flag hits found in attachment text
+const ATTACHMENT_MATCH = 'attachmentText';
+
+// Fragments of the matched fields returned with each hit, see EmailHighlight
+const HIGHLIGHT = {
+  pre_tags: [HIGHLIGHT_START],
+  post_tags: [HIGHLIGHT_END],
+  fields: {
+    // Short fields come back whole
+    subject: { number_of_fragments: 0 },
+    from: { number_of_fragments: 0 },
+    text: { fragment_size: 150, number_of_fragments: 3 },
+    attachmentText: { fragment_size: 150, number_of_fragments: 2 },
+  },
+};
+
+export const DEFAULT_PAGE_SIZE = Number(process.env.EMAILS_PAGE_SIZE || 50);
+export const MAX_PAGE_SIZE = 200;
+// Elasticsearch's index.max_result_window, the limit for offset paging
+const MAX_RESULT_WINDOW = 10000;
+
+/**
+ * Where the next page starts: after the sort values of the last hit, or at
+ * an offset for collapsed thread results, which can't use search_after with
+ * a date sort.
+ */
+interface SearchCursor {
+  after?: unknown[] | undefined;
+  offset?: number;
+}
+
+const encodeCursor = (cursor: SearchCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (cursor: string): SearchCursor => {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    );
+    if (
+      (Array.isArray(decoded.after) && decoded.after.length === 2) ||
+      (Number.isInteger(decoded.offset) && decoded.offset >= 0)
+    ) {
+      return decoded;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new SearchQueryError('Invalid cursor');
+};
+
+/**
+ * The bool query for a Gmail-style query (see compileSearchQuery) and the
+ * search filters, without the account filter.
+ */
+const buildEmailQuery = (query: string, filters: EmailSearchFilters = {}) => {
+  const compiled = compileSearchQuery(query);
+  const shouldClauses: estypes.QueryDslQueryContainer[] = [];
+  const filterClauses = compiled.filter;
+
+  if (compiled.text) {
+    // Scoring-neutral probe that tells us which hits matched inside an
+    // attachment
+    shouldClauses.push({
+      match: {
+        attachmentText: {
+          query: compiled.text,
+          _name: ATTACHMENT_MATCH,
+          boost: 0,
         },
-        // Reverted to object syntax with 'as any' to satisfy TypeScript
-        sort: [{ date: { order: 'desc' } }] as any,
       },
     });
+  }
+
+  if (filters.hasAttachments !== undefined) {
+    filterClauses.push({
+      term: { hasAttachments: filters.hasAttachments },
+    });
+  }
+
+  return {
+    bool: {
+      must: compiled.must,
+      should: shouldClauses,
+      filter: filterClauses,
+      must_not: compiled.mustNot,
+    },
+  };
+};
+
+const accountClause = (account: string) => ({
+  term: { account },
+});
+
+// A bool query without required clauses would match by `should` alone
+const withMatchAll = (query: ReturnType<typeof buildEmailQuery>) => ({
+  bool: {
+    ...query.bool,
+    must: query.bool.must.length > 0 ? query.bool.must : { match_all: {} },
+  },
+});
+
+/**
+ * Searches for emails in Elasticsearch based on a Gmail-style query (see
+ * compileSearchQuery) and an account filter.
+ * Returns a page of emails sorted by date in descending order, ties broken
+ * by Message-ID so pages never overlap, each marked with
+ * `matchedInAttachment` when the query matched text inside an attachment
+ * and carrying the `highlight` fragments of the fields it matched.
+ * @throws SearchQueryError when the query uses an operator wrongly or the
+ * cursor is invalid.
+ */
+export const searchEmails = async (
+  query: string,
+  account: string,
+  filters: EmailSearchFilters = {},
+  page: EmailSearchPage = {},
+): Promise<EmailSearchResult> => {
+  try {
+    const size = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, page.size || DEFAULT_PAGE_SIZE),
+    );
+    const cursor = page.cursor ? decodeCursor(page.cursor) : {};
+    if (filters.threads && cursor.after) {
+      throw new SearchQueryError('Invalid cursor');
+    }
+    const offset = cursor.offset || 0;
+    const searchQuery = buildEmailQuery(query, filters);
+    if (account) {
+      searchQuery.bool.must.push(accountClause(account));
+    }
+
+    const response = await client.search<
+      EmailDocument,
+      { threads?: estypes.AggregationsCardinalityAggregate }
+    >({
+      index: INDEX_NAME,
+      query: withMatchAll(searchQuery),
+      // The extracted text is only needed for matching, not in results
+      _source: { excludes: ['attachmentText'] },
+      ...(filters.threads
+        ? {
+            collapse: { field: 'threadId' },
+            from: offset,
+            // Hits count messages, the page counts conversations
+            aggs: { threads: { cardinality: { field: 'threadId' } } },
+          }
+        : { track_total_hits: true }),
+      ...(cursor.after ? { search_after: cursor.after } : {}),
+      highlight: HIGHLIGHT,
+      size,
+      sort: [{ date: { order: 'desc' } }, { messageId: { order: 'asc' } }],
+    });
 
-    return response.hits.hits.map((hit: any) => hit._source);
+    const hits = response.hits.hits;
+    const total = filters.threads
+      ? response.aggregations?.threads?.value || 0
+      : typeof response.hits.total === 'number'
+        ? response.hits.total
+        : response.hits.total?.value || 0;
+
+    let nextCursor: string | null = null;
+    if (hits.length === size) {
+      if (!filters.threads) {
+        nextCursor = encodeCursor({ after: hits[hits.length - 1].sort });
+      } else if (offset + size < Math.min(total, MAX_RESULT_WINDOW)) {
+        nextCursor = encodeCursor({ offset: offset + size });
+      }
+    }
+
+    return {
+      emails: hits.map(hit => {
+        // Named queries come as a list, or by name with scores
+        const matched = hit.matched_queries || [];
+        return {
+          ...(hit._source as EmailDocument),
+          matchedInAttachment: Array.isArray(matched)
+            ? matched.includes(ATTACHMENT_MATCH)
+            : ATTACHMENT_MATCH in matched,
+          highlight: hit.highlight || {},
+        };
+      }),
+      total,
+      nextCursor,
+    };
   } catch (error) {
+    if (error instanceof SearchQueryError) {
+      throw error;
+    }
     console.error('Error searching emails:', error);
-    return [];
+    return { emails: [], total: 0, nextCursor: null };
   }
 };
+
+/**
+ * A value of a facet and the number of matching emails having it.
+ */
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+/**
+ * Counts over every email matching a search, for the sidebar and header.
+ * All counts but `accounts` are limited to the selected account; `accounts`
+ * shows how the matches spread over every account. `dates` counts the
+ * emails of the last day, week, month and year, and those older.
+ */
+export interface EmailFacets {
+  total: number;
+  accounts: FacetBucket[];
+  folders: (FacetBucket & { unread: number })[];
+  categories: FacetBucket[];
+  unread: number;
+  starred: number;
+  attachments: number;
+  dates: FacetBucket[];
+}
+
+const DATE_BUCKETS = [
+  { key: 'today', from: 'now/d' },
+  { key: 'week', from: 'now-7d/d' },
+  { key: 'month', from: 'now-30d/d' },
+  { key: 'year', from: 'now-1y/d' },
+  { key: 'older', to: 'now-1y/d' },
+];
+
+type Count = estypes.AggregationsSingleBucketAggregateBase;
+
+// The aggregations getEmailFacets asks for
+interface FacetAggregations {
+  accounts: estypes.AggregationsStringTermsAggregate;
+  scoped: Count & {
+    folders: estypes.AggregationsMultiBucketAggregateBase<
+      estypes.AggregationsStringTermsBucketKeys & { unread: Count }
+    >;
+    categories: estypes.AggregationsStringTermsAggregate;
+    unread: Count;
+    starred: Count;
+    attachments: Count;
+    dates: estypes.AggregationsDateRangeAggregate;
+  };
+}
+
+// Buckets come as a list, or by key for keyed aggregations
+const bucketList = <TBucket>(buckets: estypes.AggregationsBuckets<TBucket>) =>
+  Array.isArray(buckets) ? buckets : Object.values(buckets);
+
+const toBuckets = (
+  aggregation: estypes.AggregationsMultiBucketAggregateBase<{
+    key?: estypes.FieldValue;
+    doc_count: number;
+  }>,
+): FacetBucket[] =>
+  bucketList(aggregation.buckets).map(bucket => ({
+    value: String(bucket.key),
+    count: bucket.doc_count,
+  }));
+
+/**
+ * Counts the emails matching a search by account, folder, category, state
+ * and age.
+ * @param timeZone IANA time zone the date buckets start their days in.
+ * @throws SearchQueryError when the query uses an operator wrongly or the
+ * time zone is unknown.
+ */
+export const getEmailFacets = async (
+  query: string,
+  account: string,
+  timeZone = 'UTC',
+): Promise<EmailFacets> => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new SearchQueryError(`Unknown time zone: ${timeZone}`);
+  }
+
+  const response = await client.search<EmailDocument, FacetAggregations>({
+    index: INDEX_NAME,
+    size: 0,
+    query: withMatchAll(buildEmailQuery(query)),
+    aggs: {
+      accounts: { terms: { field: 'account', size: 50 } },
+      // The other counts only cover the selected account
+      scoped: {
+        filter: account ? accountClause(account) : { match_all: {} },
+        aggs: {
+          folders: {
+            terms: { field: 'folderRole', size: 20 },
+            aggs: { unread: { filter: { term: { isRead: false } } } },
+          },
+          categories: { terms: { field: 'category', size: 20 } },
+          unread: { filter: { term: { isRead: false } } },
+          starred: { filter: { term: { isStarred: true } } },
+          attachments: { filter: { term: { hasAttachments: true } } },
+          dates: {
+            date_range: {
+              field: 'date',
+              time_zone: timeZone,
+              keyed: false,
+              ranges: DATE_BUCKETS,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const aggregations = response.aggregations!;
+  const scoped = aggregations.scoped;
+  return {
+    total: scoped.doc_count,
+    accounts: toBuckets(aggregations.accounts),
+    folders: bucketList(scoped.folders.buckets).map(bucket => ({
+      value: String(bucket.key),
+      count: bucket.doc_count,
+      unread: bucket.unread.doc_count,
+    })),
+    categories: toBuckets(scoped.categories),
+    unread: scoped.unread.doc_count,
+    starred: scoped.starred.doc_count,
+    attachments: scoped.attachments.doc_count,
+    dates: toBuckets(scoped.dates),
+  };
+};
@@ -1,4 +1,20 @@
+import crypto from 'crypto';
 import nodemailer from 'nodemailer';
+import addressparser from 'nodemailer/lib/addressparser';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import {
+  getAccountByEmail,
+  listAccounts,
+  ServerSettings,
+} from './account.service';
+import { BodyFormat, renderBody } from './body-format.service';
+import { getAccessToken } from './oauth.service';
+
+export interface OutgoingAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
 
 export interface SendEmailOptions {
   from: string;
@@ -7,53 +23,269 @@ export interface SendEmailOptions {
   bcc?: string;
   subject: string;
   body: string;
+  // How `body` is written; defaults to plain text
+  format?: BodyFormat;
   priority?: 'low' | 'normal' | 'high';
+  inReplyTo?: string;
+  references?: string[];
+  attachments?: OutgoingAttachment[];
+  // Reused across retries so the message is never seen twice
+  messageId?: string;
 }
 
 export interface EmailSendResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  // The exact message that went out, for filing a copy in the Sent folder
+  raw?: Buffer;
+  // Logged only: there is no working SMTP transport for the sender
+  fallback?: boolean;
+  // The failure may go away on its own, so sending again is worthwhile
+  transient?: boolean;
+}
+
+/**
+ * Generates a Message-ID on the sender's domain, so replies to the message
+ * can be threaded before the server ever echoes it back.
+ */
+export const createMessageId = (from: string) => {
+  const domain = from.match(/@([^>\s]+)/)?.[1] || 'onebox.local';
+  return `<${crypto.randomUUID()}@${domain}>`;
+};
+
+/**
+ * Where an account's mail goes out and whether the server accepted our login
+ * the last time we checked.
+ */
+export interface SmtpAccountStatus {
+  account: string;
+  host: string;
+  port: number;
+  secure: boolean;
+  auth: 'password' | 'oauth2';
+  state: 'pending' | 'verified' | 'failed';
+  error: string | null;
+  verifiedAt: string | null;
+}
+
+interface SmtpTransport {
+  status: SmtpAccountStatus;
+  transporter: nodemailer.Transporter;
+  // The account revision the transport was built from
+  version: string;
+  verification: Promise<boolean> | null;
 }
 
+/**
+ * Settings for the legacy single-sender setup (SMTP_USER/SMTP_PASS), used for
+ * an address that has no SMTP settings in the account registry.
+ */
+const getEnvSmtpSettings = (): ServerSettings | null => {
+  const user = process.env.SMTP_USER;
+  const password = process.env.SMTP_PASS;
+  if (!user || !password) {
+    return null;
+  }
+  const secure = process.env.SMTP_SECURE !== 'false';
+  return {
+    host: process.env.SMTP_HOST || 'smtp.gmail.com',
+    port: Number(process.env.SMTP_PORT || (secure ? 465 : 587)),
+    secure,
+    rejectUnauthorized: true,
+    user,
+    password,
+  };
+};
+
+const getAddress = (from: string) =>
+  addressparser(from, { flatten: true })[0]?.address?.toLowerCase() || '';
+
+// The details Nodemailer adds to the errors it throws
+type SmtpError = Error & { code?: string; responseCode?: number };
+
+/**
+ * Whether an SMTP failure is worth retrying: connection problems and 4xx
+ * replies are, 5xx replies and rejected logins or addresses are not.
+ */
+const isTransientError = (error: SmtpError) => {
+  if (typeof error.responseCode === 'number') {
+    return error.responseCode < 500;
+  }
+  return !['EAUTH', 'EENVELOPE', 'EMESSAGE'].includes(error.code || '');
+};
+
+/**
+ * Creates an SMTP transport. `secure: false` still requires STARTTLS so
+ * credentials never cross the wire in the clear. OAuth2 accounts log in with
+ * XOAUTH2; Nodemailer asks for a new access token when the current one
+ * expires or the server rejects it.
+ */
+const createTransport = (
+  account: string,
+  smtp: ServerSettings,
+  oauth: boolean,
+) =>
+  nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    requireTLS: !smtp.secure,
+    tls: { rejectUnauthorized: smtp.rejectUnauthorized, servername: smtp.host },
+    auth: oauth
+      ? {
+          type: 'OAuth2',
+          user: smtp.user,
+          provisionCallback: (_user, renew, callback) => {
+            getAccessToken(account, renew).then(
+              token => callback(null, token.accessToken, token.expiresAt),
+              error => callback(error, '', 0),
+            );
+          },
+        }
+      : { user: smtp.user, pass: smtp.password },
+  });
+
 class EmailService {
-  private transporter: nodemailer.Transporter | null = null;
-  private initialized = false;
+  // One transport per sending address, keyed by the lower-cased address
+  private transports = new Map<string, SmtpTransport>();
 
-  constructor() {
-    this.initializeTransporter();
+  /**
+   * Verifies the SMTP login of every configured account so problems show up
+   * in the status before anyone tries to send.
+   */
+  async verifyTransports() {
+    await Promise.all(
+      this.syncTransports().map(transport => this.verify(transport)),
+    );
   }
 
-  private async initializeTransporter() {
-    try {
-      // Using Gmail SMTP - you can configure other providers
-      this.transporter = nodemailer.createTransport({
-        service: 'gmail',
-        auth: {
-          user: process.env.SMTP_USER || process.env.IMAP_USER_1, // Use existing email config
-          pass: process.env.SMTP_PASS || process.env.IMAP_PASSWORD_1, // App password for Gmail
-        },
-      });
+  /**
+   * Brings the transports in line with the account registry, rebuilding those
+   * whose account changed and closing those whose account is gone.
+   */
+  private syncTransports(): SmtpTransport[] {
+    const wanted = new Set<string>();
+    for (const account of listAccounts()) {
+      if (account.smtp) {
+        wanted.add(account.email.toLowerCase());
+        this.getTransport(account.email);
+      }
+    }
+    const envSettings = getEnvSmtpSettings();
+    if (envSettings) {
+      wanted.add(envSettings.user.toLowerCase());
+      this.getTransport(envSettings.user);
+    }
 
-      // Verify connection
-      if (this.transporter) {
-        await this.transporter.verify();
-        console.log('✅ Email service initialized successfully');
-        this.initialized = true;
+    for (const [address, transport] of this.transports) {
+      if (!wanted.has(address)) {
+        transport.transporter.close();
+        this.transports.delete(address);
       }
-    } catch (error) {
-      console.warn('⚠️ Email service initialization failed:', error);
-      console.log('📧 Will use fallback mode - emails will be logged only');
-      this.initialized = false;
     }
+    return Array.from(this.transports.values());
+  }
+
+  /**
+   * Returns the transport for a sending address, building it on first use or
+   * after the account's settings changed.
+   */
+  private getTransport(from: string): SmtpTransport | null {
+    const address = getAddress(from);
+    const account = address ? getAccountByEmail(address) : undefined;
+    const envSettings = getEnvSmtpSettings();
+
+    let smtp: ServerSettings;
+    let version: string;
+    if (account?.smtp) {
+      smtp = account.smtp;
+      version = account.updatedAt;
+    } else if (envSettings && envSettings.user.toLowerCase() === address) {
+      smtp = envSettings;
+      version = 'env';
+    } else {
+      return null;
+    }
+
+    const existing = this.transports.get(address);
+    if (existing && existing.version === version) {
+      return existing;
+    }
+    existing?.transporter.close();
+
+    const oauth = !!account?.smtp && !!account.oauth;
+    const transport: SmtpTransport = {
+      status: {
+        account: address,
+        host: smtp.host,
+        port: smtp.port,
+        secure: smtp.secure,
+        auth: oauth ? 'oauth2' : 'password',
+        state: 'pending',
+        error: null,
+        verifiedAt: null,
+      },
+      transporter: createTransport(address, smtp, oauth),
+      version,
+      verification: null,
+    };
+    this.transports.set(address, transport);
+    return transport;
+  }
+
+  /**
+   * Checks a transport's login, sharing one check between concurrent callers.
+   */
+  private verify(transport: SmtpTransport): Promise<boolean> {
+    if (!transport.verification) {
+      transport.verification = transport.transporter
+        .verify()
+        .then(() => {
+          console.log(`✅ SMTP ready for ${transport.status.account}`);
+          transport.status.state = 'verified';
+          transport.status.error = null;
+          return true;
+        })
+        .catch((error: Error) => {
+          console.warn(
+            `⚠️ SMTP verification failed for ${transport.status.account}:`,
+            error.message,
+          );
+          transport.status.state = 'failed';
+          transport.status.error = error.message;
+          return false;
+        })
+        .finally(() => {
+          transport.status.verifiedAt = new Date().toISOString();
+          transport.verification = null;
+        });
+    }
+    return transport.verification;
   }
 
   async sendEmail(options: SendEmailOptions): Promise<EmailSendResult> {
-    const { from, to, cc, bcc, subject, body, priority = 'normal' } = options;
+    const {
+      from,
+      to,
+      cc,
+      bcc,
+      subject,
+      body,
+      format = 'plain',
+      priority = 'normal',
+      inReplyTo,
+      references,
+      attachments,
+      messageId = createMessageId(from),
+    } = options;
 
-    // If not initialized or no transporter, use fallback mode
-    if (!this.initialized || !this.transporter) {
-      console.log('📧 FALLBACK MODE - Email would be sent:');
+    // Without SMTP settings for this sender, use fallback mode
+    const transport = this.getTransport(from);
+    if (!transport) {
+      console.log(
+        `📧 FALLBACK MODE (no SMTP settings for ${from}) - Email would be sent:`,
+      );
       console.log({
         from,
         to,
@@ -61,16 +293,21 @@ class EmailService {
         bcc: bcc || 'N/A',
         subject,
         priority,
+        inReplyTo: inReplyTo || 'N/A',
+        format,
+        attachments: attachments?.length || 0,
         bodyLength: body.length,
       });
 
       return {
         success: true,
         messageId: `fallback_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        fallback: true,
       };
     }
 
     try {
+      const { text, html } = renderBody(body, format);
       // Prepare email options
       const mailOptions: nodemailer.SendMailOptions = {
         from: from,
@@ -78,19 +315,38 @@ class EmailService {
         cc: cc || undefined,
         bcc: bcc || undefined,
         subject: subject,
-        text: body,
-        html: body.replace(/\n/g, '<br>'), // Simple HTML conversion
+        text,
+        html,
         priority:
           priority === 'high' ? 'high' : priority === 'low' ? 'low' : 'normal',
+        messageId,
+        inReplyTo: inReplyTo || undefined,
+        references: references?.length ? references : undefined,
+        attachments: attachments || [],
       };
 
       console.log(`📧 Sending real email from ${from} to ${to}: ${subject}`);
 
-      // Send the email
-      const result = await this.transporter.sendMail(mailOptions);
+      // Build the message once so the copy filed in Sent is byte-identical
+      // to what the recipients get
+      const raw = await new MailComposer(mailOptions).compile().build();
+      const result = await transport.transporter.sendMail({
+        envelope: {
+          from: getAddress(from),
+          to: addressparser([to, cc, bcc].filter(Boolean).join(', '), {
+            flatten: true,
+          }).map(recipient => recipient.address),
+        },
+        raw,
+      });
+
+      transport.status.state = 'verified';
+      transport.status.error = null;
+      transport.status.verifiedAt = new Date().toISOString();
 
       console.log('✅ Email sent successfully:', {
-        messageId: result.messageId,
+        messageId: mailOptions.messageId,
+        response: result.response,
         from,
         to,
         cc: cc || 'N/A',
@@ -101,35 +357,53 @@ class EmailService {
 
       return {
         success: true,
-        messageId: result.messageId,
+        messageId: mailOptions.messageId as string,
+        raw,
       };
     } catch (error: any) {
       console.error('❌ Failed to send email:', error);
+      if (error.code === 'EAUTH') {
+        transport.status.state = 'failed';
+        transport.status.error = error.message;
+        transport.status.verifiedAt = new Date().toISOString();
+      }
 
       return {
         success: false,
         error: error.message || 'Failed to send email',
+        transient: isTransientError(error),
       };
     }
   }
 
-  // Test email sending
-  async sendTestEmail(to: string): Promise<EmailSendResult> {
-    return this.sendEmail({
+  // A test email, from the given account or the first one that can send
+  getTestEmail(to: string, from?: string): SendEmailOptions {
+    return {
       from:
-        process.env.SMTP_USER || process.env.IMAP_USER_1 || 'test@example.com',
+        from ||
+        listAccounts().find(account => account.smtp)?.email ||
+        process.env.SMTP_USER ||
+        'test@example.com',
       to,
       subject: 'Test Email from OneBox AI',
       body: `Hello!\n\nThis is a test email sent from OneBox AI at ${new Date().toLocaleString()}.\n\nBest regards,\nOneBox AI Team`,
       priority: 'normal',
-    });
+    };
   }
 
-  // Get service status
-  getStatus(): { initialized: boolean; ready: boolean } {
+  // Get service status, with the SMTP verification result of every account
+  getStatus(): {
+    initialized: boolean;
+    ready: boolean;
+    accounts: SmtpAccountStatus[];
+  } {
+    const accounts = this.syncTransports().map(transport => ({
+      ...transport.status,
+    }));
     return {
-      initialized: this.initialized,
-      ready: this.transporter !== null,
+      initialized: accounts.some(account => account.state === 'verified'),
+      ready: accounts.length > 0,
+      accounts,
     };
   }
 }
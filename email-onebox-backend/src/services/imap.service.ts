@@ -1,24 +1,199 @@
 import Imap = require('imap');
 import { ParsedMail, simpleParser } from 'mailparser';
-import { getAddressText, indexEmail } from './elasticsearch.service';
+import { Readable } from 'stream';
+import {
+  EmailLocation,
+  FolderRole,
+  getAddressText,
+  getAttachmentFields,
+  getEmailById,
+  getFlagFields,
+  IMAP_FLAGS,
+  indexEmail,
+  syncEmailFlags,
+  updateEmailFields,
+} from './elasticsearch.service';
 import { categorizeEmail } from './ai.service';
+import { extractAttachmentText, storeAttachments } from './attachment.service';
+import { computeThreadFields, getThreadHeaders } from './thread.service';
+import {
+  FailedMessage,
+  getCheckpoint,
+  saveCheckpoint,
+  saveFlagsModseq,
+} from './sync-state.service';
 import { sendSlackNotification, triggerWebhook } from './notification.service';
 
+/**
+ * Per-account sync settings. Folders are given by role (e.g. `sent`) or by
+ * exact mailbox path.
+ */
+export interface SyncOptions {
+  folders: string[];
+  initialSyncDays: number;
+}
+
+export const DEFAULT_SYNC_OPTIONS: SyncOptions = {
+  folders: (process.env.IMAP_SYNC_FOLDERS || 'inbox,sent,drafts,archive,trash')
+    .split(',')
+    .map(folder => folder.trim())
+    .filter(Boolean),
+  initialSyncDays: 30,
+};
+
+// How often folders other than INBOX (which uses IDLE) are re-checked
+const FOLDER_RESYNC_INTERVAL_MS =
+  Number(process.env.IMAP_FOLDER_RESYNC_INTERVAL_MS) || 5 * 60 * 1000;
+
+const SPECIAL_USE_ROLES: Record<string, FolderRole> = {
+  '\\sent': 'sent',
+  '\\drafts': 'drafts',
+  '\\archive': 'archive',
+  '\\trash': 'trash',
+  '\\junk': 'junk',
+};
+
+// Common folder names for servers that don't advertise SPECIAL-USE flags
+const FOLDER_NAME_ROLES: Record<string, FolderRole> = {
+  sent: 'sent',
+  'sent items': 'sent',
+  'sent mail': 'sent',
+  'sent messages': 'sent',
+  drafts: 'drafts',
+  archive: 'archive',
+  archives: 'archive',
+  trash: 'trash',
+  'deleted items': 'trash',
+  'deleted messages': 'trash',
+  junk: 'junk',
+  spam: 'junk',
+};
+
+// IDLE is re-issued well before the 29 minutes servers may time it out after
+const KEEPALIVE = {
+  interval: 10 * 1000,
+  idleInterval: 5 * 60 * 1000,
+  forceNoop: false,
+};
+
+// How many syncs try a message that fails before it is given up on
+const SYNC_MAX_ATTEMPTS = 5;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Returns a base64 SASL XOAUTH2 token to log in with.
+ * @param forceRefresh Whether the server rejected the last token.
+ */
+export type XOAuth2Provider = (forceRefresh: boolean) => Promise<string>;
+
+/**
+ * Lifecycle of an account's connection:
+ * connecting -> syncing <-> idle, failed while waiting to reconnect, and
+ * stopped once the account is removed.
+ */
+export type ConnectionState =
+  | 'connecting'
+  | 'syncing'
+  | 'idle'
+  | 'failed'
+  | 'stopped';
+
+/**
+ * Connection health of one account, as exposed by /api/accounts/status.
+ */
+export interface AccountStatus {
+  account: string;
+  host: string;
+  auth: 'password' | 'oauth2';
+  state: ConnectionState;
+  attempt: number;
+  lastError: string | null;
+  nextRetryAt: string | null;
+  connectedSince: string | null;
+  lastSyncAt: string | null;
+  folders: string[];
+}
+
+/**
+ * A selectable mailbox on the server and the role it plays.
+ */
+export interface MailboxInfo {
+  folder: string;
+  folderRole: FolderRole | null;
+  attribs: string[];
+}
+
+interface FetchedMessage {
+  uid: number;
+  flags: string[];
+  parsed: ParsedMail;
+}
+
+/**
+ * Stores an email's attachments in the blob store and extracts their text.
+ */
+const processAttachments = async (parsedEmail: ParsedMail) =>
+  getAttachmentFields(
+    await storeAttachments(parsedEmail.attachments),
+    await extractAttachmentText(parsedEmail.attachments),
+  );
+
 /**
  * A central function to process a parsed email.
  * It handles categorization, indexing, and sending notifications.
  * @param parsedEmail The email object from mailparser.
  * @param config The IMAP configuration object containing user details.
+ * @param location The mailbox and UID the email was fetched from.
+ * @param flags The email's current IMAP flags.
+ * @param allMail Whether the mailbox is an "All Mail" folder, which also
+ * lists the messages of every other folder.
  */
-const processEmail = async (parsedEmail: ParsedMail, config: Imap.Config) => {
+const processEmail = async (
+  parsedEmail: ParsedMail,
+  config: Imap.Config,
+  location: EmailLocation,
+  flags: string[],
+  allMail = false,
+) => {
+  // 0. Emails we have already categorized (e.g. after a UIDVALIDITY reset or
+  //    a move between folders) only need their location and flags refreshed,
+  //    plus their attachments if they were indexed before those were processed.
+  //    An email seen in "All Mail" stays in the other folder it is in.
+  const existing = parsedEmail.messageId
+    ? await getEmailById(parsedEmail.messageId)
+    : null;
+  if (existing) {
+    const elsewhere =
+      allMail && !!existing.folder && existing.folder !== location.folder;
+    await updateEmailFields(existing.messageId, {
+      ...(elsewhere ? {} : location),
+      ...getFlagFields(flags),
+      ...(existing.attachmentText === undefined
+        ? await processAttachments(parsedEmail)
+        : {}),
+    });
+    return;
+  }
+
   // 1. Categorize the email using the AI service
   const category = await categorizeEmail(
     parsedEmail.subject || '',
     parsedEmail.text || '',
   );
 
-  // 2. Index the email in Elasticsearch with its category
-  await indexEmail(parsedEmail, config.user!, category);
+  // 2. Store its attachments, place it in its conversation and index the
+  //    email in Elasticsearch with its category
+  await indexEmail(
+    parsedEmail,
+    config.user!,
+    category,
+    location,
+    flags,
+    await processAttachments(parsedEmail),
+    await computeThreadFields(getThreadHeaders(parsedEmail), config.user!),
+  );
 
   // 3. If the category is 'Interested', trigger notifications
   if (category === 'Interested') {
@@ -32,119 +207,910 @@ const processEmail = async (parsedEmail: ParsedMail, config: Imap.Config) => {
 };
 
 /**
- * Fetches the last 30 days of emails and processes them.
- * @param imap The active IMAP connection instance.
- * @param config The IMAP configuration object.
+ * Promise wrapper around `imap.openBox`. Boxes are opened read/write.
  */
-const fetchLast30DaysEmails = (imap: Imap, config: Imap.Config) => {
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-  const searchCriteria = [
-    'ALL',
-    ['SINCE', thirtyDaysAgo.toISOString().split('T')[0]],
-  ];
+const openBox = (imap: Imap, path: string) =>
+  new Promise<Imap.Box>((resolve, reject) => {
+    imap.openBox(path, false, (err, box) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(box);
+    });
+  });
 
-  imap.search(searchCriteria, (err, results) => {
-    if (err) {
-      throw err;
+/**
+ * Works out a mailbox's role from its special-use flag or its name.
+ */
+const getFolderRole = (path: string, attribs: string[]): FolderRole | null => {
+  if (path.toUpperCase() === 'INBOX') {
+    return 'inbox';
+  }
+  for (const attrib of attribs) {
+    const role = SPECIAL_USE_ROLES[attrib.toLowerCase()];
+    if (role) {
+      return role;
     }
+  }
+  const name = path.split(/[/.]/).pop() || path;
+  return FOLDER_NAME_ROLES[name.toLowerCase()] || null;
+};
 
-    if (results.length === 0) {
-      console.log(`No emails found in the last 30 days for ${config.user}.`);
-      return;
-    }
+const isAllMail = (mailbox: MailboxInfo) =>
+  mailbox.attribs.some(attrib => attrib.toLowerCase() === '\\all');
 
-    console.log(`Found ${results.length} emails to sync for ${config.user}.`);
-    const f = imap.fetch(results, { bodies: '' });
+/**
+ * Lists every selectable mailbox on the server, flattening the hierarchy
+ * into full paths (e.g. `[Gmail]/Sent Mail`).
+ */
+const listMailboxes = (imap: Imap) =>
+  new Promise<MailboxInfo[]>((resolve, reject) => {
+    imap.getBoxes((err, boxes) => {
+      if (err) {
+        reject(err);
+        return;
+      }
 
-    f.on('message', msg => {
-      msg.on('body', stream => {
-        simpleParser(stream as any, async (err, parsed) => {
-          if (err) {
-            console.error('Error parsing email:', err);
-            return;
+      const mailboxes: MailboxInfo[] = [];
+      const walk = (children: Imap.MailBoxes, prefix: string) => {
+        Object.entries(children).forEach(([name, folder]) => {
+          const path = prefix ? `${prefix}${folder.delimiter}${name}` : name;
+          const attribs = folder.attribs || [];
+          const selectable = !attribs.some(attrib =>
+            ['\\noselect', '\\nonexistent'].includes(attrib.toLowerCase()),
+          );
+          if (selectable) {
+            mailboxes.push({
+              folder: path,
+              folderRole: getFolderRole(path, attribs),
+              attribs,
+            });
+          }
+          if (folder.children) {
+            walk(folder.children, path);
           }
-          await processEmail(parsed, config);
         });
+      };
+      walk(boxes, '');
+
+      // Gmail has no Archive folder: archived mail is only left in "All Mail"
+      if (!mailboxes.some(mailbox => mailbox.folderRole === 'archive')) {
+        const allMail = mailboxes.find(isAllMail);
+        if (allMail) {
+          allMail.folderRole = 'archive';
+        }
+      }
+
+      resolve(mailboxes);
+    });
+  });
+
+/**
+ * Picks the mailboxes an account syncs, matching either a role or an exact
+ * path. INBOX is always synced and always comes first.
+ */
+const selectSyncFolders = (mailboxes: MailboxInfo[], folders: string[]) =>
+  mailboxes
+    .filter(mailbox =>
+      ['inbox', ...folders].some(
+        wanted =>
+          wanted === mailbox.folder ||
+          wanted.toLowerCase() === mailbox.folderRole,
+      ),
+    )
+    .sort(
+      (a, b) =>
+        Number(b.folderRole === 'inbox') - Number(a.folderRole === 'inbox'),
+    );
+
+/**
+ * Promise wrapper around `imap.search`. Resolves with matching UIDs.
+ */
+const searchUids = (imap: Imap, criteria: unknown[]) =>
+  new Promise<number[]>((resolve, reject) => {
+    imap.search(criteria, (err, results) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(results);
+    });
+  });
+
+/**
+ * Fetches and parses full messages by UID.
+ * Resolves once every message has been parsed, ordered by ascending UID.
+ */
+const fetchMessages = (imap: Imap, uids: number[]) =>
+  new Promise<FetchedMessage[]>((resolve, reject) => {
+    const pending: Promise<FetchedMessage | null>[] = [];
+    const f = imap.fetch(uids, { bodies: '' });
+
+    f.on('message', msg => {
+      let uid = 0;
+      let flags: string[] = [];
+      let parsing: Promise<ParsedMail> | null = null;
+
+      msg.once('attributes', attrs => {
+        uid = attrs.uid;
+        flags = attrs.flags;
+      });
+      msg.on('body', stream => {
+        parsing = simpleParser(stream as Readable);
+      });
+      msg.once('end', () => {
+        if (!parsing) {
+          return;
+        }
+        pending.push(
+          parsing
+            .then(parsed => ({ uid, flags, parsed }))
+            .catch(err => {
+              console.error('Error parsing email:', err);
+              return null;
+            }),
+        );
       });
     });
 
-    f.once('error', err => {
-      console.log('Fetch error: ' + err);
+    f.once('error', reject);
+
+    f.once('end', async () => {
+      const messages = await Promise.all(pending);
+      resolve(
+        messages
+          .filter((m): m is FetchedMessage => m !== null)
+          .sort((a, b) => a.uid - b.uid),
+      );
     });
+  });
+
+/**
+ * Fetches the current flags of messages in the open box, keyed by UID.
+ * Servers with CONDSTORE only send the messages changed since the
+ * `changedSince` mod-sequence; otherwise the refresh is limited to messages
+ * from the last `sinceDays` days instead of the whole box.
+ */
+const fetchFlags = async (
+  imap: Imap,
+  box: Imap.Box,
+  changedSince: string | undefined,
+  sinceDays: number,
+) => {
+  const flagsByUid = new Map<number, string[]>();
+  if (box.messages.total === 0) {
+    return flagsByUid;
+  }
+
+  let source: string | number[] = '1:*';
+  let options: Imap.FetchOptions = {};
+  if (changedSince && imap.serverSupports('CONDSTORE') && box.highestmodseq) {
+    if (changedSince === box.highestmodseq) {
+      return flagsByUid;
+    }
+    options = { modifiers: { changedsince: changedSince } };
+  } else {
+    const since = new Date();
+    since.setDate(since.getDate() - sinceDays);
+    source = await searchUids(imap, [
+      ['SINCE', since.toISOString().split('T')[0]],
+    ]);
+    if (source.length === 0) {
+      return flagsByUid;
+    }
+  }
 
-    f.once('end', () => {
-      console.log(`Done fetching initial messages for ${config.user}!`);
+  return new Promise<Map<number, string[]>>((resolve, reject) => {
+    const f = imap.fetch(source, options);
+    f.on('message', msg => {
+      msg.once('attributes', attrs => flagsByUid.set(attrs.uid, attrs.flags));
     });
+    f.once('error', reject);
+    f.once('end', () => resolve(flagsByUid));
   });
 };
 
 /**
- * Listens for new incoming emails in real-time.
+ * Promise wrapper around `imap.addFlags` / `imap.delFlags`.
+ */
+const storeFlag = (imap: Imap, uid: number, flag: string, enabled: boolean) =>
+  new Promise<void>((resolve, reject) => {
+    const done = (err: Error) => (err ? reject(err) : resolve());
+    if (enabled) {
+      imap.addFlags(uid, flag, done);
+    } else {
+      imap.delFlags(uid, flag, done);
+    }
+  });
+
+/**
+ * Promise wrapper around `imap.move`. node-imap uses MOVE when the server
+ * supports it and falls back to COPY + \Deleted + EXPUNGE otherwise.
+ */
+const moveUid = (imap: Imap, uid: number, destination: string) =>
+  new Promise<void>((resolve, reject) => {
+    imap.move(uid, destination, err => (err ? reject(err) : resolve()));
+  });
+
+/**
+ * Promise wrapper around `imap.expunge`, limited to the given UIDs where the
+ * server supports UIDPLUS.
+ */
+const expungeUids = (imap: Imap, uids: number[]) =>
+  new Promise<void>((resolve, reject) => {
+    imap.expunge(uids, err => (err ? reject(err) : resolve()));
+  });
+
+/**
+ * Promise wrapper around `imap.append`.
+ */
+const appendRaw = (imap: Imap, raw: Buffer, mailbox: string, flags: string[]) =>
+  new Promise<void>((resolve, reject) => {
+    imap.append(raw, { mailbox, flags }, err =>
+      err ? reject(err) : resolve(),
+    );
+  });
+
+/**
+ * Pulls every message the account has not processed yet from the open box.
+ *
+ * The last processed UID is checkpointed per account/folder, so a restart
+ * resumes where it stopped instead of re-reading the whole window. Messages
+ * that fail to fetch, parse or index are recorded with the checkpoint and
+ * retried on the next syncs, up to SYNC_MAX_ATTEMPTS times. When the stored
+ * UIDVALIDITY no longer matches the server, the old UIDs are meaningless and
+ * we fall back to a full resync of the initial sync window.
  * @param imap The active IMAP connection instance.
  * @param config The IMAP configuration object.
+ * @param box The currently opened mailbox.
+ * @param mailbox The role and path of the opened mailbox.
+ * @param initialSyncDays How far back a full resync reaches.
  */
-const listenForNewEmails = (imap: Imap, config: Imap.Config) => {
-  imap.on('mail', () => {
-    console.log(`📧 New email received for ${config.user}.`);
-    imap.search(['UNSEEN'], (err, results) => {
-      if (err || !results.length) {
-        return;
-      }
+const syncMailbox = async (
+  imap: Imap,
+  config: Imap.Config,
+  box: Imap.Box,
+  mailbox: MailboxInfo,
+  initialSyncDays: number,
+) => {
+  const account = config.user!;
+  const checkpoint = getCheckpoint(account, box.name);
+  const incremental =
+    !!checkpoint && checkpoint.uidValidity === box.uidvalidity;
+  let lastUid = incremental ? checkpoint!.lastUid : 0;
+  const failed = new Map<number, FailedMessage>(
+    (incremental ? checkpoint!.failed || [] : []).map(failure => [
+      failure.uid,
+      failure,
+    ]),
+  );
+
+  let searchCriteria: unknown[];
+  if (incremental) {
+    searchCriteria = [['UID', `${lastUid + 1}:*`]];
+  } else {
+    if (checkpoint) {
+      console.log(
+        `UIDVALIDITY changed for ${account}/${box.name}, running a full resync.`,
+      );
+    }
+    const since = new Date();
+    since.setDate(since.getDate() - initialSyncDays);
+    searchCriteria = ['ALL', ['SINCE', since.toISOString().split('T')[0]]];
+  }
+
+  // `n:*` always matches the newest message, even when its UID is below n
+  const newUids = (await searchUids(imap, searchCriteria)).filter(
+    uid => uid > lastUid,
+  );
+  const uids = [...failed.keys(), ...newUids].sort((a, b) => a - b);
+
+  if (uids.length === 0) {
+    console.log(`No new emails to sync for ${account}/${box.name}.`);
+  } else {
+    console.log(
+      `Found ${newUids.length} emails to sync for ${account}/${box.name}` +
+        (failed.size ? `, retrying ${failed.size} that failed.` : '.'),
+    );
 
-      const f = imap.fetch(results, { bodies: '', markSeen: true });
-      f.on('message', msg => {
-        msg.on('body', stream => {
-          simpleParser(stream as any, async (err, parsed) => {
-            if (err) {
-              console.error('Error parsing new email:', err);
-              return;
-            }
-            await processEmail(parsed, config);
+    const messages = new Map(
+      (await fetchMessages(imap, uids)).map(message => [message.uid, message]),
+    );
+    for (const uid of uids) {
+      const message = messages.get(uid);
+      try {
+        if (!message) {
+          throw new Error('Message could not be fetched or parsed');
+        }
+        await processEmail(
+          message.parsed,
+          config,
+          {
+            folder: mailbox.folder,
+            folderRole: mailbox.folderRole,
+            uid,
+            uidValidity: box.uidvalidity,
+          },
+          message.flags,
+          isAllMail(mailbox),
+        );
+        failed.delete(uid);
+      } catch (error) {
+        console.error(`Error processing email UID ${uid}:`, error);
+        const attempts = (failed.get(uid)?.attempts || 0) + 1;
+        if (attempts < SYNC_MAX_ATTEMPTS) {
+          failed.set(uid, {
+            uid,
+            attempts,
+            error: error instanceof Error ? error.message : String(error),
           });
-        });
-      });
+        } else {
+          failed.delete(uid);
+          console.warn(
+            `Giving up on email UID ${uid} in ${account}/${box.name} after ${attempts} attempts.`,
+          );
+        }
+      }
+      lastUid = Math.max(lastUid, uid);
+      await saveCheckpoint(account, box.name, box.uidvalidity, lastUid, [
+        ...failed.values(),
+      ]);
+    }
 
-      f.once('error', err => console.log('Fetch error on new mail: ' + err));
-      f.once('end', () => console.log('Done processing new email.'));
-    });
-  });
+    console.log(`Done syncing ${account}/${box.name}!`);
+  }
+
+  // A full resync leaves out messages older than the window on purpose, so
+  // everything below UIDNEXT counts as considered. Incremental syncs only
+  // advance past the UIDs they processed above.
+  const highWaterMark = (box.uidnext || 1) - 1;
+  if (!incremental && highWaterMark >= lastUid) {
+    await saveCheckpoint(account, box.name, box.uidvalidity, highWaterMark, [
+      ...failed.values(),
+    ]);
+  }
 };
 
 /**
- * Establishes and manages a persistent connection to an IMAP server.
- * @param config The IMAP connection configuration.
+ * Supervises one account's IMAP connection.
+ *
+ * Every selected folder is synced on connect and then periodically; INBOX is
+ * kept open (in IDLE) in between so new mail is picked up as it arrives. When
+ * the connection drops it is re-established with exponential backoff.
  */
-export const connectToImap = (config: Imap.Config) => {
-  const imap = new Imap(config);
+class ImapConnection {
+  private imap: Imap | null = null;
+  private state: ConnectionState = 'connecting';
+  private mailboxes: MailboxInfo[] = [];
+  private folders: MailboxInfo[] = [];
+  private queue: Promise<void> = Promise.resolve();
+  private currentFolder: string | null = null;
+  private activeSyncs = 0;
+  private inboxSyncQueued = false;
+  private flagRefreshQueued = false;
+  private resyncTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private stopped = false;
+  private forceTokenRefresh = false;
+  private attempt = 0;
+  private lastError: string | null = null;
+  private nextRetryAt: Date | null = null;
+  private connectedSince: Date | null = null;
+  private lastSyncAt: Date | null = null;
 
-  function openInbox(cb: (error: Error, box: Imap.Box) => void) {
-    imap.openBox('INBOX', false, cb); // false = read/write
+  constructor(
+    private readonly config: Imap.Config,
+    private readonly syncOptions: SyncOptions = DEFAULT_SYNC_OPTIONS,
+    private readonly authenticate?: XOAuth2Provider,
+  ) {}
+
+  get account(): string {
+    return this.config.user!;
   }
 
-  imap.once('ready', () => {
-    console.log(`IMAP connection ready for ${config.user}`);
-    openInbox(err => {
-      if (err) {
+  start() {
+    this.connect();
+  }
+
+  /**
+   * Closes the connection for good, e.g. when the account is removed.
+   */
+  stop() {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+
+    const imap = this.imap;
+    this.imap = null;
+    this.state = 'stopped';
+    this.nextRetryAt = null;
+    imap?.end();
+  }
+
+  getStatus(): AccountStatus {
+    return {
+      account: this.account,
+      host: this.config.host || '',
+      auth: this.authenticate ? 'oauth2' : 'password',
+      state: this.state,
+      attempt: this.attempt,
+      lastError: this.lastError,
+      nextRetryAt: this.nextRetryAt?.toISOString() || null,
+      connectedSince: this.connectedSince?.toISOString() || null,
+      lastSyncAt: this.lastSyncAt?.toISOString() || null,
+      folders: this.folders.map(mailbox => mailbox.folder),
+    };
+  }
+
+  /**
+   * Sets or clears a flag on a message and then returns to watching INBOX.
+   * @param location The folder, UID and UIDVALIDITY the message was synced with.
+   * @param flag The IMAP flag, e.g. `\Seen`.
+   * @param enabled Whether to add or remove the flag.
+   */
+  setFlag(location: EmailLocation, flag: string, enabled: boolean) {
+    return this.run(async imap => {
+      const box = await this.selectMessageFolder(imap, location);
+      try {
+        await storeFlag(imap, location.uid!, flag, enabled);
+      } finally {
+        if (box.name !== 'INBOX') {
+          await this.select(imap, 'INBOX');
+        }
+      }
+    });
+  }
+
+  /**
+   * Finds a mailbox by exact path or by role. On servers without an Archive
+   * folder (Gmail) the "All Mail" folder has the archive role.
+   */
+  findFolder(pathOrRole: string): MailboxInfo | undefined {
+    const wanted = pathOrRole.toLowerCase();
+    return (
+      this.mailboxes.find(candidate => candidate.folder === pathOrRole) ||
+      this.mailboxes.find(candidate => candidate.folderRole === wanted)
+    );
+  }
+
+  /**
+   * Moves a message to another folder and looks up the UID it was given there.
+   * @param location The folder, UID and UIDVALIDITY the message was synced with.
+   * @param messageId The Message-ID used to find the message after the move.
+   * @param destination The path of the destination folder.
+   * @returns The message's new location, or null UIDs if it can't be found.
+   */
+  moveMessage(
+    location: EmailLocation,
+    messageId: string,
+    destination: MailboxInfo,
+  ) {
+    return this.run(async imap => {
+      await this.selectMessageFolder(imap, location);
+      const moved: EmailLocation = {
+        folder: destination.folder,
+        folderRole: destination.folderRole,
+        uid: null,
+        uidValidity: null,
+      };
+
+      try {
+        await moveUid(imap, location.uid!, destination.folder);
+
+        const box = await this.select(imap, destination.folder);
+        const uids = await searchUids(imap, [
+          ['HEADER', 'MESSAGE-ID', messageId],
+        ]);
+        if (uids.length > 0) {
+          moved.uid = Math.max(...uids);
+          moved.uidValidity = box.uidvalidity;
+        }
+      } finally {
+        if (this.currentFolder !== 'INBOX') {
+          await this.select(imap, 'INBOX');
+        }
+      }
+
+      return moved;
+    });
+  }
+
+  /**
+   * Whether the server files messages sent over SMTP into the Sent folder by
+   * itself, as Gmail does. Appending them too would create duplicates.
+   */
+  get savesSentMail() {
+    return this.imap?.serverSupports('X-GM-EXT-1') ?? false;
+  }
+
+  /**
+   * Stores a complete RFC 822 message in a folder, e.g. a sent reply in Sent.
+   * The next sync of that folder indexes it like any other message.
+   */
+  appendMessage(raw: Buffer, destination: MailboxInfo, flags: string[]) {
+    return this.run(imap => appendRaw(imap, raw, destination.folder, flags));
+  }
+
+  /**
+   * Deletes every copy of a message from a folder for good, e.g. an outdated
+   * revision of a draft.
+   * @returns How many messages were removed.
+   */
+  deleteMessage(folder: MailboxInfo, messageId: string) {
+    return this.run(async imap => {
+      try {
+        await this.select(imap, folder.folder);
+        const uids = await searchUids(imap, [
+          ['HEADER', 'MESSAGE-ID', messageId],
+        ]);
+        for (const uid of uids) {
+          await storeFlag(imap, uid, IMAP_FLAGS.deleted, true);
+        }
+        if (uids.length > 0) {
+          await expungeUids(imap, uids);
+        }
+        return uids.length;
+      } finally {
+        if (this.currentFolder !== 'INBOX') {
+          await this.select(imap, 'INBOX');
+        }
+      }
+    });
+  }
+
+  private connect() {
+    if (this.stopped) {
+      return;
+    }
+    this.state = 'connecting';
+    this.nextRetryAt = null;
+
+    if (!this.authenticate) {
+      this.open(this.config);
+      return;
+    }
+
+    // Access tokens expire, so every (re)connect asks for a current one
+    const forceRefresh = this.forceTokenRefresh;
+    this.forceTokenRefresh = false;
+    this.authenticate(forceRefresh).then(
+      xoauth2 => {
+        if (!this.stopped) {
+          this.open({ ...this.config, xoauth2 });
+        }
+      },
+      (err: Error) => {
+        if (this.stopped) {
+          return;
+        }
+        this.lastError = err.message;
+        this.scheduleReconnect();
+      },
+    );
+  }
+
+  private open(config: Imap.Config) {
+    const imap = new Imap({ ...config, keepalive: KEEPALIVE });
+    this.imap = imap;
+    this.queue = Promise.resolve();
+
+    imap.once('ready', () => this.handleReady(imap));
+
+    imap.on('error', (err: Error) => {
+      console.log(`IMAP Error for ${this.account}:`, err);
+      this.lastError = err.message;
+      // The server may revoke a token before it expires; get a fresh one
+      if ((err as Error & { source?: string }).source === 'authentication') {
+        this.forceTokenRefresh = true;
+      }
+    });
+
+    imap.once('close', () => this.handleClose(imap));
+
+    imap.connect();
+  }
+
+  private handleReady(imap: Imap) {
+    console.log(`IMAP connection ready for ${this.account}`);
+    this.lastError = null;
+    this.connectedSince = new Date();
+
+    // 1. Pick up new emails as they arrive in the inbox
+    imap.on('mail', () => {
+      console.log(`📧 New email received for ${this.account}.`);
+      this.requestInboxSync();
+    });
+
+    // 2. The server reset its UIDs; the sync will notice and resync fully
+    imap.on('uidvalidity', () => this.requestInboxSync());
+
+    // 3. Flags changed elsewhere (e.g. the email was read in another client)
+    imap.on('update', (_seqno: number, info: { flags?: string[] }) =>
+      this.handleFlagUpdate(info),
+    );
+
+    // 4. Other folders don't get push notifications, so poll them
+    this.resyncTimer = setInterval(
+      () =>
+        this.enqueueSync('Folder sync', current =>
+          this.syncAllFolders(current),
+        ),
+      FOLDER_RESYNC_INTERVAL_MS,
+    );
+
+    // 5. Catch up on every folder since its last checkpoint. Until the
+    // folders are listed nothing syncs, so a failure here ends the connection
+    // and the reconnect backoff tries again.
+    this.enqueueSync('Initial sync', async () => {
+      try {
+        this.mailboxes = await listMailboxes(imap);
+        this.folders = selectSyncFolders(
+          this.mailboxes,
+          this.syncOptions.folders,
+        );
+        console.log(
+          `Syncing ${this.folders.length} folders for ${this.account}: ${this.folders
+            .map(mailbox => mailbox.folder)
+            .join(', ')}`,
+        );
+        await this.syncAllFolders(imap);
+      } catch (err) {
+        imap.end();
         throw err;
       }
-      console.log(`Inbox for ${config.user} opened successfully.`);
+      this.attempt = 0;
+    });
+  }
 
-      // 1. Perform the initial sync of old emails
-      fetchLast30DaysEmails(imap, config);
+  private handleClose(imap: Imap) {
+    if (this.imap !== imap) {
+      return;
+    }
+    console.log(`IMAP connection ended for ${this.account}.`);
 
-      // 2. Set up the listener for new emails
-      listenForNewEmails(imap, config);
+    this.imap = null;
+    this.mailboxes = [];
+    this.currentFolder = null;
+    this.connectedSince = null;
+    this.inboxSyncQueued = false;
+    this.flagRefreshQueued = false;
+    this.activeSyncs = 0;
+    if (this.resyncTimer) {
+      clearInterval(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    this.attempt += 1;
+    const backoff = Math.min(
+      RECONNECT_MAX_DELAY_MS,
+      RECONNECT_BASE_DELAY_MS * 2 ** (this.attempt - 1),
+    );
+    // Jitter keeps several accounts on the same host from retrying in lockstep
+    const delay = Math.round(backoff * (0.8 + Math.random() * 0.4));
+
+    this.state = 'failed';
+    this.nextRetryAt = new Date(Date.now() + delay);
+    console.log(
+      `Reconnecting ${this.account} in ${Math.round(delay / 1000)}s (attempt ${this.attempt}).`,
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Runs a task against the current connection. node-imap has a single
+   * selected mailbox, so mailbox work runs one task at a time.
+   */
+  private run<T>(task: (imap: Imap) => Promise<T>): Promise<T> {
+    const imap = this.imap;
+    const result = this.queue.then(() => {
+      // The connection was replaced while this task was waiting
+      if (!imap || this.imap !== imap) {
+        throw new Error(`IMAP connection for ${this.account} is not ready`);
+      }
+      return task(imap);
     });
-  });
+    this.queue = result.then(
+      () => undefined,
+      () => undefined,
+    );
+    return result;
+  }
 
-  imap.once('error', (err: Error) => {
-    console.log(`IMAP Error for ${config.user}:`, err);
-  });
+  /**
+   * Queues a sync and tracks the syncing/idle state around it.
+   */
+  private enqueueSync(label: string, task: (imap: Imap) => Promise<void>) {
+    this.activeSyncs += 1;
+    this.state = 'syncing';
+    this.run(task)
+      .then(() => {
+        this.lastSyncAt = new Date();
+      })
+      .catch(err => {
+        console.error(`${label} failed for ${this.account}:`, err);
+        this.lastError = err.message;
+      })
+      .finally(() => {
+        this.activeSyncs = Math.max(0, this.activeSyncs - 1);
+        if (this.activeSyncs === 0 && this.imap) {
+          this.state = 'idle';
+        }
+      });
+  }
 
-  imap.once('end', () => {
-    console.log(`IMAP connection ended for ${config.user}.`);
-  });
+  private async select(imap: Imap, path: string) {
+    const box = await openBox(imap, path);
+    this.currentFolder = box.name;
+    return box;
+  }
+
+  /**
+   * Opens the folder a message was synced from, making sure its UID is still
+   * valid there.
+   */
+  private async selectMessageFolder(imap: Imap, location: EmailLocation) {
+    if (!location.uid) {
+      throw new Error('Email has no IMAP UID yet; wait for the next sync');
+    }
+    const box = await this.select(imap, location.folder);
+    if (location.uidValidity && box.uidvalidity !== location.uidValidity) {
+      throw new Error(
+        `UIDVALIDITY of ${location.folder} changed; wait for the next sync`,
+      );
+    }
+    return box;
+  }
+
+  private async syncFolder(
+    imap: Imap,
+    mailbox: MailboxInfo,
+    refreshFlags = false,
+  ) {
+    const box = await this.select(imap, mailbox.folder);
+    await syncMailbox(
+      imap,
+      this.config,
+      box,
+      mailbox,
+      this.syncOptions.initialSyncDays,
+    );
+
+    if (refreshFlags) {
+      const flagsByUid = await fetchFlags(
+        imap,
+        box,
+        getCheckpoint(this.account, box.name)?.flagsModseq,
+        this.syncOptions.initialSyncDays,
+      );
+      const updated = await syncEmailFlags(
+        this.account,
+        mailbox.folder,
+        flagsByUid,
+      );
+      if (updated > 0) {
+        console.log(
+          `Updated flags on ${updated} emails in ${this.account}/${mailbox.folder}.`,
+        );
+      }
+      if (box.highestmodseq) {
+        await saveFlagsModseq(this.account, box.name, box.highestmodseq);
+      }
+    }
+  }
+
+  private async syncAllFolders(imap: Imap) {
+    for (const mailbox of this.folders) {
+      try {
+        await this.syncFolder(imap, mailbox, true);
+      } catch (err) {
+        console.error(`Error syncing ${this.account}/${mailbox.folder}:`, err);
+      }
+    }
+    // Go back to watching the inbox
+    await this.select(imap, 'INBOX');
+  }
+
+  private requestInboxSync() {
+    const inbox = this.folders.find(mailbox => mailbox.folderRole === 'inbox');
+    if (!inbox || this.inboxSyncQueued) {
+      return;
+    }
+    this.inboxSyncQueued = true;
+    this.enqueueSync('Inbox sync', async imap => {
+      this.inboxSyncQueued = false;
+      await this.syncFolder(imap, inbox);
+    });
+  }
+
+  /**
+   * Mirrors an unsolicited FETCH (flag change) onto the index. Servers that
+   * don't include the UID get a flag refresh of the inbox instead.
+   */
+  private handleFlagUpdate(info: { uid?: number; flags?: string[] }) {
+    if (!info?.flags) {
+      return;
+    }
+
+    if (info.uid && this.currentFolder) {
+      syncEmailFlags(
+        this.account,
+        this.currentFolder,
+        new Map([[info.uid, info.flags]]),
+      ).catch(err =>
+        console.error(`Error updating flags for ${this.account}:`, err),
+      );
+      return;
+    }
+
+    const inbox = this.folders.find(mailbox => mailbox.folderRole === 'inbox');
+    if (!inbox || this.flagRefreshQueued) {
+      return;
+    }
+    this.flagRefreshQueued = true;
+    this.enqueueSync('Flag refresh', async imap => {
+      this.flagRefreshQueued = false;
+      await this.syncFolder(imap, inbox, true);
+    });
+  }
+}
+
+const connections = new Map<string, ImapConnection>();
+
+/**
+ * Starts a supervised, self-reconnecting connection for an IMAP account,
+ * replacing any connection the account already has.
+ * @param config The IMAP connection configuration.
+ * @param syncOptions Which folders to sync and how far back.
+ * @param authenticate Supplies an XOAUTH2 token for OAuth2 accounts; password
+ * accounts leave it out.
+ */
+export const connectToImap = (
+  config: Imap.Config,
+  syncOptions: SyncOptions = DEFAULT_SYNC_OPTIONS,
+  authenticate?: XOAuth2Provider,
+) => {
+  disconnectImap(config.user!);
+  const connection = new ImapConnection(config, syncOptions, authenticate);
+  connections.set(connection.account, connection);
+  connection.start();
+  return connection;
+};
 
-  imap.connect();
+/**
+ * Stops syncing an account and closes its connection.
+ * @returns Whether the account had a connection.
+ */
+export const disconnectImap = (account: string) => {
+  const connection = connections.get(account);
+  if (!connection) {
+    return false;
+  }
+  connection.stop();
+  connections.delete(account);
+  return true;
 };
+
+/**
+ * Returns the supervised connection for an account, if it is being synced.
+ */
+export const getImapConnection = (account: string) => connections.get(account);
+
+/**
+ * Returns the connection state of every account being synced.
+ */
+export const getAccountStatuses = (): AccountStatus[] =>
+  Array.from(connections.values()).map(connection => connection.getStatus());
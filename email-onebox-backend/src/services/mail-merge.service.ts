@@ -0,0 +1,424 @@
+import crypto from 'crypto';
+import { BodyFormat, escapeHtml, renderBody } from './body-format.service';
+import { SendEmailOptions } from './email.service';
+import {
+  cancelEmail,
+  getOutboxEntry,
+  OutboxError,
+  OutboxStatus,
+  queueEmail,
+  UNDO_WINDOW_MS,
+} from './outbox.service';
+import { fillVariables, getVariables } from './snippets.service';
+import { JsonFileStore } from './store.service';
+
+/**
+ * One row of a mail merge: the recipient's address in `email` plus the
+ * values for the template's `{{placeholders}}`, keyed by column name.
+ */
+export type MergeRecipient = Record<string, string>;
+
+export interface MergeTemplate {
+  subject: string;
+  body: string;
+  format?: BodyFormat;
+}
+
+export interface MergeInput extends MergeTemplate {
+  from: string;
+  priority?: SendEmailOptions['priority'];
+  // Seconds between two consecutive messages of the merge
+  intervalSeconds?: number;
+  // When the first message goes out; right after the undo window by default
+  sendAt?: Date | null;
+}
+
+/**
+ * A recipient's message as it will be sent, or why it can't be.
+ */
+export interface MergePreview {
+  index: number;
+  to: string;
+  subject: string;
+  body: string;
+  html: string;
+  // Placeholders the recipient has no value for
+  missing: string[];
+  error: string | null;
+}
+
+export interface MergeResult {
+  index: number;
+  to: string;
+  // queued: handed to the outbox, skipped: not sent because of `error`
+  status: 'queued' | 'skipped' | 'failed';
+  outboxId: string | null;
+  sendAt: string | null;
+  error: string | null;
+}
+
+export interface MailMerge {
+  id: string;
+  from: string;
+  subject: string;
+  format: BodyFormat;
+  intervalSeconds: number;
+  results: MergeResult[];
+  createdAt: string;
+}
+
+/**
+ * An invalid mail merge or an unknown one, carrying the HTTP status the API
+ * should answer with.
+ */
+export class MailMergeError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'MailMergeError';
+  }
+}
+
+const MAX_RECIPIENTS = Number(process.env.MAIL_MERGE_MAX_RECIPIENTS || 500);
+const DEFAULT_INTERVAL_SECONDS = Number(
+  process.env.MAIL_MERGE_INTERVAL_SECONDS || 10,
+);
+const MIN_INTERVAL_SECONDS = 1;
+const EMAIL_PATTERN = /^[^\s@<>",;]+@[^\s@<>",;]+\.[^\s@<>",;]+$/;
+
+const store = new JsonFileStore<MailMerge>('mail-merges');
+
+/**
+ * Splits CSV text into rows of fields. Handles quoted fields with commas,
+ * line breaks and doubled quotes, and both \n and \r\n line endings.
+ */
+const parseCsvRows = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new MailMergeError('Unterminated quoted field in CSV', 400);
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines are not recipients
+  return rows.filter(fields => fields.some(value => value.trim()));
+};
+
+const fromCsv = (text: string): MergeRecipient[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+  const columns = header.map(name => name.trim());
+  return rows.map(fields => {
+    const recipient: MergeRecipient = {};
+    columns.forEach((column, index) => {
+      if (column) {
+        recipient[column] = (fields[index] ?? '').trim();
+      }
+    });
+    return recipient;
+  });
+};
+
+const fromJson = (items: unknown[]): MergeRecipient[] =>
+  items.map(item => {
+    if (typeof item === 'string') {
+      return { email: item.trim() };
+    }
+    const recipient: MergeRecipient = {};
+    if (item && typeof item === 'object') {
+      Object.entries(item).forEach(([name, value]) => {
+        if (value !== undefined && value !== null) {
+          recipient[name] = String(value).trim();
+        }
+      });
+    }
+    return recipient;
+  });
+
+/**
+ * Reads the recipients of a merge from CSV text with a header row, or from
+ * an array of objects or plain addresses. The address column may be named
+ * `email` in any case; it is always available as `email` afterwards.
+ */
+export const parseRecipients = (input: unknown): MergeRecipient[] => {
+  let recipients: MergeRecipient[];
+  if (typeof input === 'string') {
+    recipients = fromCsv(input);
+  } else if (Array.isArray(input)) {
+    recipients = fromJson(input);
+  } else {
+    throw new MailMergeError(
+      'recipients must be CSV text or an array of recipients',
+      400,
+    );
+  }
+
+  if (recipients.length === 0) {
+    throw new MailMergeError('No recipients given', 400);
+  }
+  if (recipients.length > MAX_RECIPIENTS) {
+    throw new MailMergeError(
+      `A mail merge may have at most ${MAX_RECIPIENTS} recipients`,
+      400,
+    );
+  }
+
+  return recipients.map(recipient => {
+    const column = Object.keys(recipient).find(
+      name => name.toLowerCase() === 'email',
+    );
+    return { ...recipient, email: column ? recipient[column]! : '' };
+  });
+};
+
+const validateTemplate = (template: MergeTemplate) => {
+  if (typeof template.subject !== 'string' || !template.subject.trim()) {
+    throw new MailMergeError('Missing required field: subject', 400);
+  }
+  if (typeof template.body !== 'string' || !template.body.trim()) {
+    throw new MailMergeError('Missing required field: body', 400);
+  }
+};
+
+/**
+ * Fills in the template for every recipient. Values going into an HTML body
+ * are escaped, so recipient data can't add markup.
+ */
+export const previewMerge = (
+  template: MergeTemplate,
+  recipients: MergeRecipient[],
+): MergePreview[] => {
+  validateTemplate(template);
+  const format = template.format || 'plain';
+  const variables = getVariables(`${template.subject}\n${template.body}`);
+  const seen = new Set<string>();
+
+  return recipients.map((recipient, index) => {
+    const values: Record<string, string> = {};
+    Object.entries(recipient).forEach(([name, value]) => {
+      if (value) {
+        values[name] = value;
+      }
+    });
+    const bodyValues =
+      format === 'html'
+        ? Object.fromEntries(
+            Object.entries(values).map(([name, value]) => [
+              name,
+              escapeHtml(value),
+            ]),
+          )
+        : values;
+
+    const to = recipient.email || '';
+    const address = to.toLowerCase();
+    const subject = fillVariables(template.subject, values).replace(
+      /[\r\n]+/g,
+      ' ',
+    );
+    const body = fillVariables(template.body, bodyValues);
+    const missing = variables.filter(name => values[name] === undefined);
+
+    let error: string | null = null;
+    if (!to) {
+      error = 'Missing email address';
+    } else if (!EMAIL_PATTERN.test(to)) {
+      error = `Invalid email address: ${to}`;
+    } else if (seen.has(address)) {
+      error = `Duplicate recipient: ${to}`;
+    } else if (missing.length) {
+      error = `Missing values for: ${missing.join(', ')}`;
+    }
+    seen.add(address);
+
+    return {
+      index,
+      to,
+      subject,
+      body,
+      html: renderBody(body, format).html,
+      missing,
+      error,
+    };
+  });
+};
+
+/**
+ * Queues one personalized email per recipient in the outbox, spaced
+ * `intervalSeconds` apart so the SMTP server isn't flooded. Recipients whose
+ * message can't be filled in completely are skipped, not sent.
+ */
+export const sendMerge = async (
+  input: MergeInput,
+  recipients: MergeRecipient[],
+): Promise<MailMerge> => {
+  if (!input.from) {
+    throw new MailMergeError('Missing required field: from', 400);
+  }
+  const format = input.format || 'plain';
+  const previews = previewMerge({ ...input, format }, recipients);
+  const intervalSeconds = Math.max(
+    MIN_INTERVAL_SECONDS,
+    input.intervalSeconds ?? DEFAULT_INTERVAL_SECONDS,
+  );
+  // The undo window holds the first message back too, keeping the spacing even
+  const start = Math.max(
+    input.sendAt?.getTime() || 0,
+    Date.now() + UNDO_WINDOW_MS,
+  );
+
+  const results: MergeResult[] = [];
+  let position = 0;
+  for (const preview of previews) {
+    const result: MergeResult = {
+      index: preview.index,
+      to: preview.to,
+      status: 'skipped',
+      outboxId: null,
+      sendAt: null,
+      error: preview.error,
+    };
+    results.push(result);
+    if (preview.error) {
+      continue;
+    }
+
+    const sendAt = new Date(start + position * intervalSeconds * 1000);
+    position++;
+    try {
+      const entry = await queueEmail(
+        {
+          from: input.from,
+          to: preview.to,
+          subject: preview.subject,
+          body: preview.body,
+          format,
+          ...(input.priority ? { priority: input.priority } : {}),
+        },
+        { saveToSent: true, sendAt },
+      );
+      Object.assign(result, {
+        status: 'queued',
+        outboxId: entry.id,
+        sendAt: entry.nextAttemptAt || entry.sendAt,
+      });
+    } catch (error) {
+      // A bad sendAt fails every recipient the same way
+      if (error instanceof OutboxError && error.status === 400) {
+        throw new MailMergeError(error.message, 400);
+      }
+      Object.assign(result, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const merge: MailMerge = {
+    id: crypto.randomUUID(),
+    from: input.from,
+    subject: input.subject,
+    format,
+    intervalSeconds,
+    results,
+    createdAt: new Date().toISOString(),
+  };
+  await store.set(merge.id, merge);
+  console.log(
+    `📨 Mail merge ${merge.id}: ${position} of ${results.length} recipients queued.`,
+  );
+  return merge;
+};
+
+export const getMailMerge = (id: string) => store.get(id);
+
+/**
+ * Mail merges, newest first.
+ */
+export const listMailMerges = () =>
+  store.values().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+/**
+ * A merge with the current delivery status of each recipient's message, as
+ * tracked by the outbox, and the number of recipients per status.
+ */
+export const getMergeReport = (merge: MailMerge) => {
+  const counts: Record<string, number> = {};
+  const results = merge.results.map(result => {
+    const entry = result.outboxId ? getOutboxEntry(result.outboxId) : undefined;
+    const delivery: OutboxStatus | MergeResult['status'] = entry
+      ? entry.status
+      : result.status;
+    counts[delivery] = (counts[delivery] || 0) + 1;
+    return {
+      ...result,
+      delivery,
+      ...(entry?.sentAt ? { sentAt: entry.sentAt } : {}),
+      error: entry?.lastError || result.error,
+    };
+  });
+  return { ...merge, total: results.length, counts, results };
+};
+
+/**
+ * Cancels the messages of a merge that have not gone out yet.
+ * @returns The number of messages cancelled.
+ */
+export const cancelMerge = async (id: string) => {
+  const merge = store.get(id);
+  if (!merge) {
+    throw new MailMergeError('Mail merge not found', 404);
+  }
+  let cancelled = 0;
+  for (const result of merge.results) {
+    const entry = result.outboxId ? getOutboxEntry(result.outboxId) : undefined;
+    if (entry && ['scheduled', 'queued'].includes(entry.status)) {
+      try {
+        await cancelEmail(entry.id);
+        cancelled++;
+      } catch (error) {
+        // Already on its way
+        console.warn(`Could not cancel outbox message ${entry.id}:`, error);
+      }
+    }
+  }
+  console.log(`↩️ Mail merge ${id}: ${cancelled} messages cancelled.`);
+  return { merge, cancelled };
+};
@@ -0,0 +1,151 @@
+import {
+  EmailDocument,
+  getFlagFields,
+  IMAP_FLAGS,
+  updateEmailFields,
+} from './elasticsearch.service';
+import { getImapConnection } from './imap.service';
+
+export type FlagAction = 'read' | 'unread' | 'star' | 'unstar';
+
+export const FLAG_ACTIONS: Record<
+  FlagAction,
+  { flag: string; enabled: boolean }
+> = {
+  read: { flag: IMAP_FLAGS.seen, enabled: true },
+  unread: { flag: IMAP_FLAGS.seen, enabled: false },
+  star: { flag: IMAP_FLAGS.flagged, enabled: true },
+  unstar: { flag: IMAP_FLAGS.flagged, enabled: false },
+};
+
+/**
+ * An error caused by the request rather than the server, carrying the HTTP
+ * status the API should answer with.
+ */
+export class MailboxActionError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'MailboxActionError';
+  }
+}
+
+/**
+ * Looks up the live IMAP connection for the account an email belongs to.
+ */
+const requireConnection = (email: EmailDocument) => {
+  const connection = getImapConnection(email.account);
+  if (!connection) {
+    throw new MailboxActionError(
+      `Account ${email.account} is not connected`,
+      503,
+    );
+  }
+  return connection;
+};
+
+/**
+ * Actions on a message need the UID it has in its current folder.
+ */
+const requireUid = (email: EmailDocument) => {
+  if (!email.uid) {
+    throw new MailboxActionError(
+      'Email has not been synced from its current folder yet',
+      409,
+    );
+  }
+};
+
+/**
+ * Applies a flag change on the IMAP server, then mirrors it onto the indexed
+ * email so the UI doesn't have to wait for the next flag sync.
+ * @returns The email with its updated flag fields.
+ */
+const applyFlag = async (
+  email: EmailDocument,
+  flag: string,
+  enabled: boolean,
+): Promise<EmailDocument> => {
+  requireUid(email);
+
+  await requireConnection(email).setFlag(email, flag, enabled);
+
+  const currentFlags = email.flags || [];
+  const flags = enabled
+    ? Array.from(new Set([...currentFlags, flag]))
+    : currentFlags.filter(existing => existing !== flag);
+  const flagFields = getFlagFields(flags);
+  await updateEmailFields(email.messageId, { ...flagFields });
+
+  return { ...email, ...flagFields };
+};
+
+/**
+ * Marks an email read/unread or starred/unstarred.
+ */
+export const setEmailFlag = (email: EmailDocument, action: FlagAction) => {
+  const { flag, enabled } = FLAG_ACTIONS[action];
+  return applyFlag(email, flag, enabled);
+};
+
+/**
+ * Marks an email as answered once a reply to it has been sent.
+ */
+export const markAnswered = (email: EmailDocument) =>
+  applyFlag(email, IMAP_FLAGS.answered, true);
+
+/**
+ * Moves an email to another folder on the IMAP server and updates the
+ * indexed document's location. The folder it came from is remembered so
+ * archived or trashed emails can be restored.
+ * @param email The indexed email.
+ * @param destination A folder path or role (e.g. `trash`).
+ * @returns The email at its new location.
+ */
+export const moveEmail = async (
+  email: EmailDocument,
+  destination: string,
+): Promise<EmailDocument> => {
+  const connection = requireConnection(email);
+  const target = connection.findFolder(destination);
+  if (!target) {
+    throw new MailboxActionError(
+      `Folder "${destination}" does not exist for ${email.account}`,
+      400,
+    );
+  }
+  if (target.folder === email.folder) {
+    return email;
+  }
+  requireUid(email);
+
+  const location = await connection.moveMessage(email, email.messageId, target);
+  const changes = { ...location, previousFolder: email.folder };
+  await updateEmailFields(email.messageId, changes);
+
+  return { ...email, ...changes };
+};
+
+export const archiveEmail = (email: EmailDocument) =>
+  moveEmail(email, 'archive');
+
+export const trashEmail = (email: EmailDocument) => moveEmail(email, 'trash');
+
+/**
+ * Moves an archived or trashed email back to where it came from, or to the
+ * inbox when that is unknown.
+ */
+export const restoreEmail = (email: EmailDocument) => {
+  const connection = requireConnection(email);
+  const previous = email.previousFolder
+    ? connection.findFolder(email.previousFolder)
+    : undefined;
+  const restorable =
+    previous &&
+    previous.folderRole !== 'trash' &&
+    previous.folder !== email.folder;
+
+  return moveEmail(email, restorable ? previous.folder : 'INBOX');
+};
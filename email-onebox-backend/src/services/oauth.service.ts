@@ -0,0 +1,330 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { JsonFileStore } from './store.service';
+
+export type OAuthProvider = 'google' | 'microsoft';
+
+export const OAUTH_PROVIDERS: OAuthProvider[] = ['google', 'microsoft'];
+
+/**
+ * Endpoints, scopes and default servers of an OAuth2 provider. Client
+ * credentials come from the environment so they never end up in the account
+ * registry.
+ */
+interface ProviderConfig {
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  clientId: string | undefined;
+  clientSecret: string | undefined;
+  imap: { host: string; port: number; secure: boolean };
+  smtp: { host: string; port: number; secure: boolean };
+}
+
+const microsoftTenant = process.env.MICROSOFT_TENANT || 'common';
+
+const PROVIDERS: Record<OAuthProvider, ProviderConfig> = {
+  google: {
+    authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    scopes: ['https://mail.google.com/'],
+    clientId: process.env.GOOGLE_CLIENT_ID,
+    clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    imap: { host: 'imap.gmail.com', port: 993, secure: true },
+    smtp: { host: 'smtp.gmail.com', port: 465, secure: true },
+  },
+  microsoft: {
+    authorizeUrl: `https://login.microsoftonline.com/${microsoftTenant}/oauth2/v2.0/authorize`,
+    tokenUrl: `https://login.microsoftonline.com/${microsoftTenant}/oauth2/v2.0/token`,
+    scopes: [
+      'offline_access',
+      'https://outlook.office.com/IMAP.AccessAsUser.All',
+      'https://outlook.office.com/SMTP.Send',
+    ],
+    clientId: process.env.MICROSOFT_CLIENT_ID,
+    clientSecret: process.env.MICROSOFT_CLIENT_SECRET,
+    imap: { host: 'outlook.office365.com', port: 993, secure: true },
+    // Microsoft 365 only accepts STARTTLS for SMTP submission
+    smtp: { host: 'smtp.office365.com', port: 587, secure: false },
+  },
+};
+
+const REDIRECT_URI =
+  process.env.OAUTH_REDIRECT_URI || 'http://localhost:3001/api/oauth/callback';
+
+// Refresh a little before expiry so a token never runs out mid-connection
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Tokens of one account. Providers may rotate the refresh token on every
+ * refresh (Microsoft does), so it is rewritten whenever a new one comes back.
+ */
+interface StoredTokens {
+  provider: OAuthProvider;
+  accessToken: string | null;
+  refreshToken: string;
+  expiresAt: number;
+  lastRefreshAt: string | null;
+  lastError: string | null;
+}
+
+/**
+ * Token health of an account, as shown in /api/accounts/status.
+ */
+export interface OAuthStatus {
+  provider: OAuthProvider;
+  authorized: boolean;
+  expiresAt: string | null;
+  lastRefreshAt: string | null;
+  lastError: string | null;
+}
+
+export interface AccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/**
+ * An OAuth2 problem, carrying the HTTP status the API should answer with.
+ */
+export class OAuthError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+const tokens = new JsonFileStore<StoredTokens>('oauth-tokens');
+
+// Authorization requests waiting for the provider to redirect back, by state
+const pendingAuthorizations = new Map<
+  string,
+  { account: string; provider: OAuthProvider; expiresAt: number }
+>();
+
+// One refresh per account at a time; IMAP and SMTP often ask together
+const refreshes = new Map<string, Promise<AccessToken>>();
+
+export const getProviderConfig = (provider: OAuthProvider) =>
+  PROVIDERS[provider];
+
+const getClient = (provider: OAuthProvider) => {
+  const { clientId, clientSecret } = PROVIDERS[provider];
+  if (!clientId) {
+    throw new OAuthError(
+      `OAuth2 for ${provider} is not configured (missing client id)`,
+      400,
+    );
+  }
+  return { clientId, clientSecret };
+};
+
+/**
+ * Calls the provider's token endpoint and stores what comes back.
+ */
+const requestTokens = async (
+  account: string,
+  provider: OAuthProvider,
+  params: Record<string, string>,
+  previousRefreshToken?: string,
+) => {
+  const { clientId, clientSecret } = getClient(provider);
+  const body = new URLSearchParams({
+    client_id: clientId,
+    ...(clientSecret ? { client_secret: clientSecret } : {}),
+    ...params,
+  });
+
+  const response = await axios.post(PROVIDERS[provider].tokenUrl, body, {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+  const data = response.data;
+  const refreshToken = data.refresh_token || previousRefreshToken;
+  if (!data.access_token || !refreshToken) {
+    throw new Error('Token response is missing an access or refresh token');
+  }
+
+  const stored: StoredTokens = {
+    provider,
+    accessToken: data.access_token,
+    refreshToken,
+    expiresAt: Date.now() + Number(data.expires_in || 3600) * 1000,
+    lastRefreshAt: new Date().toISOString(),
+    lastError: null,
+  };
+  await tokens.set(account, stored);
+  return stored;
+};
+
+// Token endpoints explain failures in `error_description`
+const describeError = (error: unknown) => {
+  if (
+    axios.isAxiosError<{ error?: string; error_description?: string }>(error)
+  ) {
+    return (
+      error.response?.data?.error_description ||
+      error.response?.data?.error ||
+      error.message
+    );
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+/**
+ * Returns a valid access token for an account, refreshing it when it is
+ * about to expire. Refresh failures are recorded for the account's status.
+ * @param account The account's email address.
+ * @param forceRefresh Refresh even if the token looks valid, e.g. after the
+ * server rejected it.
+ */
+export const getAccessToken = async (
+  account: string,
+  forceRefresh = false,
+): Promise<AccessToken> => {
+  const stored = tokens.get(account);
+  if (!stored) {
+    throw new OAuthError(`No OAuth2 tokens for ${account}, authorize it`, 401);
+  }
+  if (
+    !forceRefresh &&
+    stored.accessToken &&
+    stored.expiresAt - EXPIRY_MARGIN_MS > Date.now()
+  ) {
+    return { accessToken: stored.accessToken, expiresAt: stored.expiresAt };
+  }
+
+  const pending = refreshes.get(account);
+  if (pending) {
+    return pending;
+  }
+
+  const refresh = requestTokens(
+    account,
+    stored.provider,
+    { grant_type: 'refresh_token', refresh_token: stored.refreshToken },
+    stored.refreshToken,
+  )
+    .then(updated => {
+      console.log(`🔑 Refreshed OAuth2 token for ${account}.`);
+      return {
+        accessToken: updated.accessToken!,
+        expiresAt: updated.expiresAt,
+      };
+    })
+    .catch(async (error: unknown) => {
+      const message = `OAuth2 token refresh failed: ${describeError(error)}`;
+      console.error(`❌ ${message} (${account})`);
+      await tokens.set(account, { ...stored, lastError: message });
+      throw new Error(message);
+    })
+    .finally(() => refreshes.delete(account));
+
+  refreshes.set(account, refresh);
+  return refresh;
+};
+
+/**
+ * Builds the SASL XOAUTH2 initial response for IMAP.
+ */
+export const buildXOAuth2Token = (user: string, accessToken: string) =>
+  Buffer.from(`user=${user}\x01auth=Bearer ${accessToken}\x01\x01`).toString(
+    'base64',
+  );
+
+/**
+ * Stores a refresh token obtained elsewhere, e.g. with the provider's CLI.
+ */
+export const saveRefreshToken = async (
+  account: string,
+  provider: OAuthProvider,
+  refreshToken: string,
+) => {
+  await tokens.set(account, {
+    provider,
+    accessToken: null,
+    refreshToken,
+    expiresAt: 0,
+    lastRefreshAt: null,
+    lastError: null,
+  });
+};
+
+export const deleteTokens = (account: string) => tokens.delete(account);
+
+export const getOAuthStatus = (account: string): OAuthStatus | null => {
+  const stored = tokens.get(account);
+  if (!stored) {
+    return null;
+  }
+  return {
+    provider: stored.provider,
+    authorized: !stored.lastError,
+    expiresAt: stored.expiresAt
+      ? new Date(stored.expiresAt).toISOString()
+      : null,
+    lastRefreshAt: stored.lastRefreshAt,
+    lastError: stored.lastError,
+  };
+};
+
+/**
+ * Starts the authorization code flow for an account.
+ * @returns The provider's consent page to send the user to.
+ */
+export const getAuthorizationUrl = (
+  account: string,
+  provider: OAuthProvider,
+) => {
+  const { clientId } = getClient(provider);
+  const state = crypto.randomBytes(16).toString('hex');
+  pendingAuthorizations.set(state, {
+    account,
+    provider,
+    expiresAt: Date.now() + AUTHORIZATION_TTL_MS,
+  });
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: REDIRECT_URI,
+    response_type: 'code',
+    scope: PROVIDERS[provider].scopes.join(' '),
+    state,
+    login_hint: account,
+    // Google only hands out a refresh token with offline access and consent
+    ...(provider === 'google'
+      ? { access_type: 'offline', prompt: 'consent' }
+      : {}),
+  });
+  return `${PROVIDERS[provider].authorizeUrl}?${params.toString()}`;
+};
+
+/**
+ * Exchanges the code the provider redirected back with for tokens.
+ * @returns The account that was authorized.
+ */
+export const completeAuthorization = async (code: string, state: string) => {
+  const pending = pendingAuthorizations.get(state);
+  pendingAuthorizations.delete(state);
+  if (!pending || pending.expiresAt < Date.now()) {
+    throw new OAuthError('Unknown or expired authorization request', 400);
+  }
+
+  try {
+    await requestTokens(pending.account, pending.provider, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: REDIRECT_URI,
+    });
+  } catch (error) {
+    throw new OAuthError(
+      `Authorization failed: ${describeError(error)}`,
+      error instanceof OAuthError ? error.status : 502,
+    );
+  }
+  console.log(`🔑 Authorized ${pending.account} with ${pending.provider}.`);
+  return pending.account;
+};
@@ -0,0 +1,484 @@
+import crypto from 'crypto';
+import { blobStore } from './blob-store.service';
+import {
+  createMessageId,
+  EmailSendResult,
+  emailService,
+  OutgoingAttachment,
+  SendEmailOptions,
+} from './email.service';
+import { getEmailById, IMAP_FLAGS } from './elasticsearch.service';
+import { getImapConnection } from './imap.service';
+import { markAnswered } from './mailbox.service';
+import { JsonFileStore } from './store.service';
+
+/**
+ * Lifecycle of an outgoing message:
+ * scheduled (during the undo window or until sendAt) -> queued -> sending ->
+ * sent, back to queued while transient failures are retried, failed once
+ * retries run out or the server refuses the message, fallback-logged when no
+ * SMTP transport exists and the message was only written to the log, and
+ * cancelled when the user undoes the send in time.
+ */
+export type OutboxStatus =
+  | 'scheduled'
+  | 'queued'
+  | 'sending'
+  | 'sent'
+  | 'failed'
+  | 'fallback-logged'
+  | 'cancelled';
+
+export const OUTBOX_STATUSES: OutboxStatus[] = [
+  'scheduled',
+  'queued',
+  'sending',
+  'sent',
+  'failed',
+  'fallback-logged',
+  'cancelled',
+];
+
+interface OutboxAttachment {
+  filename: string;
+  contentType?: string;
+  size: number;
+  // Where the content waits in the blob store until the message is done
+  key: string;
+}
+
+export type OutboxMessage = Omit<
+  SendEmailOptions,
+  'attachments' | 'messageId'
+> & {
+  messageId: string;
+  attachments: OutboxAttachment[];
+};
+
+/**
+ * When to deliver a message and what to do once it has been delivered.
+ */
+export interface QueueOptions {
+  // Send at this time instead of right after the undo window
+  sendAt?: Date | null;
+  // File a copy in the sender's Sent folder
+  saveToSent?: boolean;
+  // Message-ID of the email this one answers, to flag it as answered
+  answers?: string | null;
+}
+
+/**
+ * A request the outbox can't honor, carrying the HTTP status the API should
+ * answer with.
+ */
+export class OutboxError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'OutboxError';
+  }
+}
+
+export interface OutboxEntry {
+  id: string;
+  status: OutboxStatus;
+  message: OutboxMessage;
+  saveToSent: boolean;
+  answers: string | null;
+  sendAt: string | null;
+  // Until when the send can still be undone
+  undoUntil: string | null;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  savedToSent: boolean | null;
+  createdAt: string;
+  updatedAt: string;
+  sentAt: string | null;
+}
+
+const MAX_ATTEMPTS = Number(process.env.OUTBOX_MAX_ATTEMPTS || 5);
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+const POLL_INTERVAL_MS = 15 * 1000;
+// Every send waits this long before going out, so it can be undone
+export const UNDO_WINDOW_MS =
+  Number(process.env.UNDO_SEND_SECONDS ?? 10) * 1000;
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+// Finished entries are kept this long for the delivery status API
+const RETENTION_MS =
+  Number(process.env.OUTBOX_RETENTION_DAYS || 30) * 24 * 60 * 60 * 1000;
+
+const FINISHED: OutboxStatus[] = [
+  'sent',
+  'failed',
+  'fallback-logged',
+  'cancelled',
+];
+// Statuses that are waiting for their next delivery attempt
+const PENDING: OutboxStatus[] = ['scheduled', 'queued'];
+
+const store = new JsonFileStore<OutboxEntry>('outbox');
+const inFlight = new Set<string>();
+// Attempts due before the next poll get their own timer
+const timers = new Map<string, NodeJS.Timeout>();
+let pollTimer: NodeJS.Timeout | null = null;
+
+const update = async (entry: OutboxEntry, changes: Partial<OutboxEntry>) => {
+  const updated: OutboxEntry = {
+    ...entry,
+    ...changes,
+    updatedAt: new Date().toISOString(),
+  };
+  await store.set(entry.id, updated);
+  return updated;
+};
+
+const storeAttachments = (id: string, attachments: OutgoingAttachment[]) =>
+  Promise.all(
+    attachments.map(async (attachment, index) => {
+      const key = `outbox/${id}/${index + 1}`;
+      await blobStore.put(key, attachment.content);
+      return {
+        filename: attachment.filename,
+        ...(attachment.contentType
+          ? { contentType: attachment.contentType }
+          : {}),
+        size: attachment.content.length,
+        key,
+      };
+    }),
+  );
+
+const loadAttachments = (entry: OutboxEntry) =>
+  Promise.all(
+    entry.message.attachments.map(
+      async ({ filename, contentType, key }): Promise<OutgoingAttachment> => {
+        const content = await blobStore.get(key);
+        if (!content) {
+          throw new Error(`Attachment ${filename} is missing from the outbox`);
+        }
+        return { filename, content, ...(contentType ? { contentType } : {}) };
+      },
+    ),
+  );
+
+const deleteAttachments = async (entry: OutboxEntry) => {
+  for (const attachment of entry.message.attachments) {
+    try {
+      await blobStore.delete(attachment.key);
+    } catch (error) {
+      console.warn(`Could not delete outbox blob ${attachment.key}:`, error);
+    }
+  }
+};
+
+/**
+ * Files a sent message in the account's Sent folder so the conversation is
+ * complete in other mail clients too. Failures are logged, not thrown: the
+ * message has already gone out by then.
+ */
+const saveToSent = async (account: string, raw: Buffer) => {
+  const connection = getImapConnection(account);
+  if (!connection) {
+    return false;
+  }
+  if (connection.savesSentMail) {
+    return true;
+  }
+
+  const sent = connection.findFolder('sent');
+  if (!sent) {
+    console.warn(`No Sent folder found for ${account}, not saving message.`);
+    return false;
+  }
+
+  try {
+    await connection.appendMessage(raw, sent, [IMAP_FLAGS.seen]);
+    return true;
+  } catch (error) {
+    console.error(`Error saving message to ${sent.folder}:`, error);
+    return false;
+  }
+};
+
+const markOriginalAnswered = async (messageId: string) => {
+  try {
+    const original = await getEmailById(messageId);
+    if (original?.uid && !original.isAnswered) {
+      await markAnswered(original);
+    }
+  } catch (error) {
+    console.error('Error marking email as answered:', error);
+  }
+};
+
+const retryDelay = (attempts: number) => {
+  const backoff = Math.min(
+    RETRY_MAX_DELAY_MS,
+    RETRY_BASE_DELAY_MS * 2 ** (attempts - 1),
+  );
+  return Math.round(backoff * (0.8 + Math.random() * 0.4));
+};
+
+/**
+ * Makes one delivery attempt and records the outcome.
+ */
+const attempt = async (id: string): Promise<OutboxEntry | undefined> => {
+  const queued = store.get(id);
+  if (!queued || !PENDING.includes(queued.status) || inFlight.has(id)) {
+    return queued;
+  }
+  inFlight.add(id);
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+
+  try {
+    const entry = await update(queued, {
+      status: 'sending',
+      attempts: queued.attempts + 1,
+      nextAttemptAt: null,
+    });
+
+    let result: EmailSendResult;
+    try {
+      result = await emailService.sendEmail({
+        ...entry.message,
+        attachments: await loadAttachments(entry),
+      });
+    } catch (error) {
+      result = {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        transient: false,
+      };
+    }
+
+    if (result.success && result.fallback) {
+      await deleteAttachments(entry);
+      return await update(entry, {
+        status: 'fallback-logged',
+        lastError: `No SMTP settings for ${entry.message.from}: the message was logged, not delivered`,
+      });
+    }
+
+    if (result.success) {
+      console.log(`📤 Outbox message ${id} sent.`);
+      await deleteAttachments(entry);
+      const savedToSent =
+        entry.saveToSent && result.raw
+          ? await saveToSent(entry.message.from, result.raw)
+          : null;
+      if (entry.answers) {
+        await markOriginalAnswered(entry.answers);
+      }
+      return await update(entry, {
+        status: 'sent',
+        lastError: null,
+        sentAt: new Date().toISOString(),
+        savedToSent,
+      });
+    }
+
+    if (result.transient && entry.attempts < entry.maxAttempts) {
+      const delay = retryDelay(entry.attempts);
+      console.log(
+        `📤 Outbox message ${id} failed (attempt ${entry.attempts}), retrying in ${Math.round(delay / 1000)}s.`,
+      );
+      return await update(entry, {
+        status: 'queued',
+        lastError: result.error || 'Failed to send email',
+        nextAttemptAt: new Date(Date.now() + delay).toISOString(),
+      });
+    }
+
+    console.error(`❌ Outbox message ${id} failed: ${result.error}`);
+    await deleteAttachments(entry);
+    return await update(entry, {
+      status: 'failed',
+      lastError: result.error || 'Failed to send email',
+    });
+  } finally {
+    inFlight.delete(id);
+  }
+};
+
+/**
+ * Starts a timer for an attempt that is due before the next poll would pick
+ * it up.
+ */
+const scheduleAttempt = (entry: OutboxEntry) => {
+  const delay = entry.nextAttemptAt
+    ? Date.parse(entry.nextAttemptAt) - Date.now()
+    : 0;
+  if (delay >= POLL_INTERVAL_MS || timers.has(entry.id)) {
+    return;
+  }
+  timers.set(
+    entry.id,
+    setTimeout(
+      () => {
+        timers.delete(entry.id);
+        attempt(entry.id).catch(error =>
+          console.error(`Error sending outbox message ${entry.id}:`, error),
+        );
+      },
+      Math.max(0, delay),
+    ),
+  );
+};
+
+/**
+ * Puts a message in the outbox. It goes out once the undo window has passed,
+ * or at `sendAt` when that is later; without an undo window the first
+ * delivery attempt is made right away.
+ * @returns The entry: scheduled, or after an immediate first attempt sent,
+ * failed, fallback-logged or queued for a retry.
+ */
+export const queueEmail = async (
+  options: SendEmailOptions,
+  queueOptions: QueueOptions = {},
+): Promise<OutboxEntry> => {
+  const { sendAt } = queueOptions;
+  if (sendAt && Number.isNaN(sendAt.getTime())) {
+    throw new OutboxError('Invalid sendAt date', 400);
+  }
+  if (sendAt && sendAt.getTime() > Date.now() + MAX_SCHEDULE_AHEAD_MS) {
+    throw new OutboxError('sendAt may be at most a year ahead', 400);
+  }
+
+  const id = crypto.randomUUID();
+  const { attachments = [], messageId, ...message } = options;
+  const now = new Date();
+  const dueAt = Math.max(
+    now.getTime() + UNDO_WINDOW_MS,
+    sendAt?.getTime() || 0,
+  );
+  const scheduled = dueAt > now.getTime();
+
+  const entry: OutboxEntry = {
+    id,
+    status: scheduled ? 'scheduled' : 'queued',
+    message: {
+      ...message,
+      messageId: messageId || createMessageId(options.from),
+      attachments: await storeAttachments(id, attachments),
+    },
+    saveToSent: !!queueOptions.saveToSent,
+    answers: queueOptions.answers || null,
+    sendAt: sendAt ? sendAt.toISOString() : null,
+    undoUntil: scheduled ? new Date(dueAt).toISOString() : null,
+    attempts: 0,
+    maxAttempts: MAX_ATTEMPTS,
+    nextAttemptAt: scheduled ? new Date(dueAt).toISOString() : null,
+    lastError: null,
+    savedToSent: null,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    sentAt: null,
+  };
+  await store.set(id, entry);
+
+  if (scheduled) {
+    console.log(
+      `🕒 Outbox message ${id} scheduled for ${entry.nextAttemptAt}.`,
+    );
+    scheduleAttempt(entry);
+    return entry;
+  }
+  return (await attempt(id)) || entry;
+};
+
+/**
+ * Cancels a message that has not gone out yet: one waiting out its undo
+ * window or schedule, or one waiting for a retry.
+ */
+export const cancelEmail = async (id: string) => {
+  const entry = store.get(id);
+  if (!entry) {
+    throw new OutboxError('Outbox entry not found', 404);
+  }
+  if (!PENDING.includes(entry.status) || inFlight.has(id)) {
+    throw new OutboxError(
+      `Email can no longer be cancelled (${entry.status})`,
+      409,
+    );
+  }
+
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  await deleteAttachments(entry);
+  console.log(`↩️ Outbox message ${id} cancelled.`);
+  return update(entry, { status: 'cancelled', nextAttemptAt: null });
+};
+
+/**
+ * Sends scheduled messages and retries queued ones that are due, sets timers
+ * for those due before the next poll, and forgets old finished ones.
+ */
+const processOutbox = async () => {
+  const now = Date.now();
+  for (const entry of store.values()) {
+    if (
+      PENDING.includes(entry.status) &&
+      (!entry.nextAttemptAt || Date.parse(entry.nextAttemptAt) <= now)
+    ) {
+      await attempt(entry.id);
+    } else if (PENDING.includes(entry.status)) {
+      scheduleAttempt(entry);
+    } else if (
+      FINISHED.includes(entry.status) &&
+      Date.parse(entry.updatedAt) < now - RETENTION_MS
+    ) {
+      await store.delete(entry.id);
+    }
+  }
+};
+
+/**
+ * Resumes delivery after a restart and starts polling for due retries.
+ * Messages that were mid-send when the app stopped are sent again.
+ */
+export const startOutbox = async () => {
+  for (const entry of store.values()) {
+    if (entry.status === 'sending') {
+      await update(entry, { status: 'queued', nextAttemptAt: null });
+    }
+  }
+  if (!pollTimer) {
+    pollTimer = setInterval(() => {
+      processOutbox().catch(error =>
+        console.error('Error processing outbox:', error),
+      );
+    }, POLL_INTERVAL_MS);
+  }
+  await processOutbox();
+};
+
+/**
+ * Outbox entries, newest first, optionally only those with a status.
+ */
+export const listOutbox = (status?: OutboxStatus) =>
+  store
+    .values()
+    .filter(entry => !status || entry.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+export const getOutboxEntry = (id: string) => store.get(id);
+
+/**
+ * An entry as returned by the API: blob keys stay internal.
+ */
+export const toPublicOutboxEntry = (entry: OutboxEntry) => ({
+  ...entry,
+  message: {
+    ...entry.message,
+    attachments: entry.message.attachments.map(
+      ({ key: _key, ...attachment }) => attachment,
+    ),
+  },
+  delivered: entry.status === 'sent',
+});
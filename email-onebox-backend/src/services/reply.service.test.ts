@@ -0,0 +1,87 @@
+import type { EmailDocument } from './elasticsearch.service';
+import { buildReplyDraft } from './reply.service';
+
+jest.mock('./attachment.service', () => ({ readAttachment: jest.fn() }));
+jest.mock('./mailbox.service', () => ({ MailboxActionError: Error }));
+jest.mock('./outbox.service', () => ({ queueEmail: jest.fn() }));
+
+const makeEmail = (fields: Partial<EmailDocument>) =>
+  ({
+    account: 'me@example.com',
+    messageId: '<b@x>',
+    from: '"Alice" <alice@example.com>',
+    to: 'me@example.com, bob@example.com',
+    cc: 'carol@example.com, Me@Example.com',
+    subject: 'Lunch',
+    text: 'See you there\nAlice',
+    date: '2024-03-01T10:00:00Z',
+    references: ['<root@x>'],
+    ...fields,
+  }) as EmailDocument;
+
+describe('buildReplyDraft', () => {
+  it('replies to the sender from the account with threading headers', () => {
+    const draft = buildReplyDraft(makeEmail({}), 'reply');
+    expect(draft).toEqual({
+      mode: 'reply',
+      from: 'me@example.com',
+      to: '"Alice" <alice@example.com>',
+      cc: '',
+      subject: 'Re: Lunch',
+      inReplyTo: '<b@x>',
+      references: ['<root@x>', '<b@x>'],
+      body:
+        '\n\nOn Fri, 01 Mar 2024 10:00:00 GMT, "Alice" <alice@example.com> wrote:\n' +
+        '> See you there\n> Alice',
+    });
+  });
+
+  it('prefers Reply-To and keeps an existing Re: prefix', () => {
+    const draft = buildReplyDraft(
+      makeEmail({ replyTo: 'list@example.com', subject: 'RE: Lunch' }),
+      'reply',
+    );
+    expect(draft.to).toBe('list@example.com');
+    expect(draft.subject).toBe('RE: Lunch');
+  });
+
+  it('copies everyone else on a reply-all', () => {
+    const draft = buildReplyDraft(makeEmail({}), 'replyAll');
+    expect(draft.to).toBe('"Alice" <alice@example.com>');
+    expect(draft.cc).toBe('bob@example.com, carol@example.com');
+  });
+
+  it('replies to the original recipients of our own message', () => {
+    const draft = buildReplyDraft(
+      makeEmail({ from: 'Me <ME@example.com>', cc: 'carol@example.com' }),
+      'replyAll',
+    );
+    expect(draft.to).toBe('bob@example.com');
+    expect(draft.cc).toBe('carol@example.com');
+  });
+
+  it('forwards without recipients or In-Reply-To', () => {
+    const draft = buildReplyDraft(
+      makeEmail({ subject: 'Fw: Lunch' }),
+      'forward',
+    );
+    expect(draft).toMatchObject({
+      to: '',
+      cc: '',
+      subject: 'Fw: Lunch',
+      inReplyTo: null,
+      references: ['<root@x>', '<b@x>'],
+    });
+    expect(draft.body).toContain('---------- Forwarded message ---------');
+    expect(draft.body).toContain('Subject: Fw: Lunch');
+  });
+
+  it('trims long References chains to the root and the latest ids', () => {
+    const references = Array.from({ length: 30 }, (_, i) => `<${i}@x>`);
+    const draft = buildReplyDraft(makeEmail({ references }), 'reply');
+    expect(draft.references).toHaveLength(20);
+    expect(draft.references[0]).toBe('<0@x>');
+    expect(draft.references[1]).toBe('<12@x>');
+    expect(draft.references[19]).toBe('<b@x>');
+  });
+});
@@ -0,0 +1,243 @@
+import addressparser from 'nodemailer/lib/addressparser';
+import { readAttachment } from './attachment.service';
+import { BodyFormat } from './body-format.service';
+import { OutgoingAttachment } from './email.service';
+import { EmailDocument } from './elasticsearch.service';
+import { MailboxActionError } from './mailbox.service';
+import { OutboxStatus, queueEmail } from './outbox.service';
+
+export type ReplyMode = 'reply' | 'replyAll' | 'forward';
+
+export const REPLY_MODES: ReplyMode[] = ['reply', 'replyAll', 'forward'];
+
+// Long References chains are trimmed to the root plus the most recent ids
+const MAX_REFERENCES = 20;
+
+/**
+ * A reply, reply-all or forward with its recipients, subject, threading
+ * headers and quoted body filled in.
+ */
+export interface ReplyDraft {
+  mode: ReplyMode;
+  from: string;
+  to: string;
+  cc: string;
+  subject: string;
+  inReplyTo: string | null;
+  references: string[];
+  body: string;
+}
+
+/**
+ * What the user may change before a reply goes out.
+ */
+export interface ReplyInput {
+  to?: string;
+  cc?: string;
+  bcc?: string;
+  subject?: string;
+  body: string;
+  format?: BodyFormat;
+  sendAt?: Date | null;
+}
+
+export interface ReplyResult {
+  messageId: string;
+  outboxId: string;
+  status: OutboxStatus;
+  savedToSent: boolean;
+  undoUntil: string | null;
+}
+
+/**
+ * Splits an address header into bare, lower-cased addresses paired with the
+ * original text of each entry.
+ */
+const parseAddresses = (header: string | undefined) =>
+  addressparser(header || '', { flatten: true })
+    .filter(entry => entry.address)
+    .map(entry => ({
+      address: entry.address.toLowerCase(),
+      text: entry.name
+        ? `"${entry.name.replace(/"/g, '\\"')}" <${entry.address}>`
+        : entry.address,
+    }));
+
+/**
+ * Joins address entries, dropping duplicates and anything in `exclude`.
+ */
+const joinAddresses = (
+  entries: { address: string; text: string }[],
+  exclude: string[],
+) => {
+  const seen = new Set(exclude);
+  return entries
+    .filter(entry => {
+      if (seen.has(entry.address)) {
+        return false;
+      }
+      seen.add(entry.address);
+      return true;
+    })
+    .map(entry => entry.text)
+    .join(', ');
+};
+
+const withPrefix = (subject: string | undefined, prefix: 'Re' | 'Fwd') => {
+  const base = subject || '';
+  const existing = prefix === 'Re' ? /^\s*re\s*:/i : /^\s*fwd?\s*:/i;
+  return existing.test(base) ? base : `${prefix}: ${base}`.trim();
+};
+
+const quoteBody = (email: EmailDocument) => {
+  const date = email.date
+    ? new Date(email.date).toUTCString()
+    : 'an earlier date';
+  const quoted = (email.text || '')
+    .split('\n')
+    .map(line => `> ${line}`)
+    .join('\n');
+  return `\n\nOn ${date}, ${email.from || 'someone'} wrote:\n${quoted}`;
+};
+
+const forwardBody = (email: EmailDocument) =>
+  [
+    '',
+    '',
+    '---------- Forwarded message ---------',
+    `From: ${email.from || ''}`,
+    `Date: ${email.date ? new Date(email.date).toUTCString() : ''}`,
+    `Subject: ${email.subject || ''}`,
+    `To: ${email.to || ''}`,
+    '',
+    email.text || '',
+  ].join('\n');
+
+/**
+ * Prepares a reply, reply-all or forward of an indexed email.
+ *
+ * Replies go to Reply-To, or From when that is missing; replying to our own
+ * sent message goes back to its original recipients. Reply-all copies
+ * everyone else on To and Cc except the account itself.
+ */
+export const buildReplyDraft = (
+  email: EmailDocument,
+  mode: ReplyMode,
+): ReplyDraft => {
+  const self = email.account.toLowerCase();
+  const references = [...(email.references || []), email.messageId];
+  const trimmedReferences =
+    references.length > MAX_REFERENCES
+      ? [references[0]!, ...references.slice(-(MAX_REFERENCES - 1))]
+      : references;
+
+  if (mode === 'forward') {
+    return {
+      mode,
+      from: email.account,
+      to: '',
+      cc: '',
+      subject: withPrefix(email.subject, 'Fwd'),
+      inReplyTo: null,
+      references: trimmedReferences,
+      body: forwardBody(email),
+    };
+  }
+
+  const sender = parseAddresses(email.replyTo || email.from);
+  const isOwnMessage = sender.every(entry => entry.address === self);
+  const toEntries = isOwnMessage ? parseAddresses(email.to) : sender;
+  const to = joinAddresses(toEntries, [self]);
+
+  const cc =
+    mode === 'replyAll'
+      ? joinAddresses(
+          [...parseAddresses(email.to), ...parseAddresses(email.cc)],
+          [self, ...toEntries.map(entry => entry.address)],
+        )
+      : '';
+
+  return {
+    mode,
+    from: email.account,
+    to,
+    cc,
+    subject: withPrefix(email.subject, 'Re'),
+    inReplyTo: email.messageId,
+    references: trimmedReferences,
+    body: quoteBody(email),
+  };
+};
+
+/**
+ * Loads the original's attachments so a forward carries them along.
+ */
+const loadAttachments = async (email: EmailDocument) => {
+  const attachments: OutgoingAttachment[] = [];
+  for (const attachment of email.attachments || []) {
+    if (attachment.inline) {
+      continue;
+    }
+    const content = await readAttachment(attachment);
+    if (content) {
+      attachments.push({
+        filename: attachment.filename,
+        content,
+        contentType: attachment.contentType,
+      });
+    }
+  }
+  return attachments;
+};
+
+/**
+ * Sends a reply, reply-all or forward of an indexed email with proper
+ * threading headers through the outbox, which files it in Sent and marks the
+ * original as answered once it is delivered.
+ */
+export const sendReply = async (
+  email: EmailDocument,
+  mode: ReplyMode,
+  input: ReplyInput,
+): Promise<ReplyResult> => {
+  const draft = buildReplyDraft(email, mode);
+  const to = input.to ?? draft.to;
+  if (!to.trim()) {
+    throw new MailboxActionError('Missing required field: to', 400);
+  }
+
+  const cc = input.cc ?? draft.cc;
+  const entry = await queueEmail(
+    {
+      from: draft.from,
+      to,
+      ...(cc ? { cc } : {}),
+      ...(input.bcc ? { bcc: input.bcc } : {}),
+      subject: input.subject || draft.subject,
+      body: input.body,
+      ...(input.format ? { format: input.format } : {}),
+      ...(draft.inReplyTo ? { inReplyTo: draft.inReplyTo } : {}),
+      references: draft.references,
+      ...(mode === 'forward'
+        ? { attachments: await loadAttachments(email) }
+        : {}),
+    },
+    {
+      saveToSent: true,
+      answers: mode === 'forward' ? null : email.messageId,
+      sendAt: input.sendAt ?? null,
+    },
+  );
+
+  if (entry.status === 'failed') {
+    throw new Error(entry.lastError || 'Failed to send reply');
+  }
+
+  return {
+    messageId: entry.message.messageId,
+    outboxId: entry.id,
+    status: entry.status,
+    savedToSent: !!entry.savedToSent,
+    undoUntil: entry.undoUntil,
+  };
+};
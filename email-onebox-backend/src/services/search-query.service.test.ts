@@ -0,0 +1,148 @@
+import {
+  compileSearchQuery,
+  parseSearchQuery,
+  SearchQueryError,
+} from './search-query.service';
+
+describe('parseSearchQuery', () => {
+  it('splits free text, operators, phrases and negations', () => {
+    expect(
+      parseSearchQuery('invoice from:alice "due soon" -subject:spam'),
+    ).toEqual([
+      { operator: null, value: 'invoice', negated: false, quoted: false },
+      { operator: 'from', value: 'alice', negated: false, quoted: false },
+      { operator: null, value: 'due soon', negated: false, quoted: true },
+      { operator: 'subject', value: 'spam', negated: true, quoted: false },
+    ]);
+  });
+
+  it('reads quoted operator values and lower-cases operator names', () => {
+    expect(parseSearchQuery('FROM:"Alice Smith"')).toEqual([
+      { operator: 'from', value: 'Alice Smith', negated: false, quoted: true },
+    ]);
+  });
+
+  it('keeps unknown operators as free text', () => {
+    expect(parseSearchQuery('http://example.com -foo:bar')).toEqual([
+      {
+        operator: null,
+        value: 'http://example.com',
+        negated: false,
+        quoted: false,
+      },
+      { operator: null, value: 'foo:bar', negated: true, quoted: false },
+    ]);
+  });
+
+  it('drops operators without a value', () => {
+    expect(parseSearchQuery('subject:""')).toEqual([]);
+  });
+});
+
+describe('compileSearchQuery', () => {
+  it('matches all free words across the text fields at once', () => {
+    const compiled = compileSearchQuery('quarterly report');
+    expect(compiled.must).toEqual([
+      {
+        multi_match: {
+          query: 'quarterly report',
+          fields: ['from', 'to', 'subject', 'text', 'attachmentText'],
+          type: 'cross_fields',
+          operator: 'and',
+        },
+      },
+    ]);
+    expect(compiled.text).toBe('quarterly report');
+  });
+
+  it('matches phrases and field operators as phrases', () => {
+    const compiled = compileSearchQuery('"next week" to:"bob jones"');
+    expect(compiled.must).toEqual([
+      {
+        multi_match: {
+          query: 'next week',
+          fields: ['from', 'to', 'subject', 'text', 'attachmentText'],
+          type: 'phrase',
+        },
+      },
+      {
+        multi_match: {
+          query: 'bob jones',
+          fields: ['to', 'cc'],
+          type: 'phrase',
+        },
+      },
+    ]);
+    expect(compiled.text).toBe('next week');
+  });
+
+  it('excludes negated terms', () => {
+    const compiled = compileSearchQuery('-newsletter -is:read');
+    expect(compiled.must).toEqual([]);
+    expect(compiled.mustNot).toEqual([
+      {
+        multi_match: {
+          query: 'newsletter',
+          fields: ['from', 'to', 'subject', 'text', 'attachmentText'],
+          type: 'cross_fields',
+          operator: 'and',
+        },
+      },
+      { term: { isRead: true } },
+    ]);
+    expect(compiled.text).toBe('');
+  });
+
+  it('turns the other operators into exact filters', () => {
+    expect(
+      compileSearchQuery(
+        'has:attachment is:unread is:starred in:spam category:"not interested" account:me@example.com',
+      ).filter,
+    ).toEqual([
+      { term: { hasAttachments: true } },
+      { term: { isRead: false } },
+      { term: { isStarred: true } },
+      { term: { folderRole: 'junk' } },
+      { term: { category: 'Not Interested' } },
+      { term: { account: 'me@example.com' } },
+    ]);
+  });
+
+  it('filters by folder name when in: is not a known role', () => {
+    expect(compileSearchQuery('in:Receipts/2024').filter).toEqual([
+      { term: { folder: 'Receipts/2024' } },
+    ]);
+    expect(compileSearchQuery('in:anywhere').filter).toEqual([]);
+  });
+
+  it('filters dates from the start of after: up to before:', () => {
+    expect(
+      compileSearchQuery('after:2024/2/29 before:2024-03-10').filter,
+    ).toEqual([
+      { range: { date: { gte: '2024-02-29' } } },
+      { range: { date: { lt: '2024-03-10' } } },
+    ]);
+  });
+
+  it.each(['2024-13-01', '2024-02-30', '2023-02-29', '2024-00-10', 'today'])(
+    'rejects the invalid date %s',
+    date => {
+      expect(() => compileSearchQuery(`after:${date}`)).toThrow(
+        SearchQueryError,
+      );
+    },
+  );
+
+  it('rejects unknown operator values with a 400', () => {
+    for (const query of ['is:urgent', 'has:link', 'category:misc']) {
+      let error: unknown;
+      try {
+        compileSearchQuery(query);
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(SearchQueryError);
+      expect((error as SearchQueryError).status).toBe(400);
+    }
+  });
+});
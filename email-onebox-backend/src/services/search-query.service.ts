@@ -0,0 +1,253 @@
+import type { estypes } from '@elastic/elasticsearch';
+import { EMAIL_CATEGORIES } from './ai.service';
+import type { FolderRole } from './elasticsearch.service';
+
+/**
+ * One term of a search query: free text, a "quoted phrase", or an operator
+ * such as `from:alice`, each optionally negated with a leading `-`.
+ */
+export interface SearchTerm {
+  operator: string | null;
+  value: string;
+  negated: boolean;
+  quoted: boolean;
+}
+
+/**
+ * The bool query clauses a search query compiles to. `text` is the positive
+ * free text, used to tell which hits matched inside an attachment.
+ */
+export interface CompiledSearchQuery {
+  must: estypes.QueryDslQueryContainer[];
+  filter: estypes.QueryDslQueryContainer[];
+  mustNot: estypes.QueryDslQueryContainer[];
+  text: string;
+}
+
+/**
+ * A query using an operator wrongly, e.g. an unknown `is:` value or a date
+ * that can't be read. Carries the HTTP status the API should answer with.
+ */
+export class SearchQueryError extends Error {
+  constructor(
+    message: string,
+    readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = 'SearchQueryError';
+  }
+}
+
+const TEXT_FIELDS = ['from', 'to', 'subject', 'text', 'attachmentText'];
+
+// Operators matched against analyzed text fields
+const FIELD_OPERATORS: Record<string, string[]> = {
+  from: ['from'],
+  to: ['to', 'cc'],
+  cc: ['cc'],
+  subject: ['subject'],
+};
+
+const IS_VALUES: Record<string, Record<string, boolean>> = {
+  unread: { isRead: false },
+  read: { isRead: true },
+  starred: { isStarred: true },
+  unstarred: { isStarred: false },
+  answered: { isAnswered: true },
+  replied: { isAnswered: true },
+};
+
+const FOLDER_ROLES: Record<string, FolderRole> = {
+  inbox: 'inbox',
+  sent: 'sent',
+  drafts: 'drafts',
+  draft: 'drafts',
+  archive: 'archive',
+  trash: 'trash',
+  bin: 'trash',
+  junk: 'junk',
+  spam: 'junk',
+};
+
+const OPERATORS = new Set([
+  ...Object.keys(FIELD_OPERATORS),
+  'has',
+  'is',
+  'in',
+  'category',
+  'account',
+  'after',
+  'before',
+]);
+
+// [-][operator:]("quoted value"|value)
+const TERM_PATTERN = /(-?)(?:([a-zA-Z]+):)?(?:"([^"]*)"?|(\S+))/g;
+const DATE_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/;
+
+/**
+ * Splits a Gmail-style query into terms. Anything that looks like an
+ * operator but isn't one, such as `http://`, stays free text.
+ */
+export const parseSearchQuery = (query: string): SearchTerm[] => {
+  const terms: SearchTerm[] = [];
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    const [raw, minus, name, quotedValue, plainValue] = match;
+    const operator = name?.toLowerCase();
+    const value = (quotedValue ?? plainValue ?? '').trim();
+    const quoted = quotedValue !== undefined;
+
+    if (operator && !OPERATORS.has(operator)) {
+      terms.push({
+        operator: null,
+        value: raw.slice(minus!.length),
+        negated: !!minus,
+        quoted: false,
+      });
+    } else if (value) {
+      terms.push({
+        operator: operator || null,
+        value,
+        negated: !!minus,
+        quoted,
+      });
+    }
+  }
+  return terms;
+};
+
+const textClause = (
+  fields: string[],
+  value: string,
+  quoted: boolean,
+): estypes.QueryDslQueryContainer => ({
+  multi_match: quoted
+    ? { query: value, fields, type: 'phrase' }
+    : { query: value, fields, type: 'cross_fields', operator: 'and' },
+});
+
+const parseDate = (operator: string, value: string) => {
+  const match = value.match(DATE_PATTERN);
+  const [year, month, day] = match ? match.slice(1).map(Number) : [];
+  const date = match ? new Date(Date.UTC(year!, month! - 1, day)) : null;
+  // Date.UTC rolls over out-of-range parts, e.g. month 13 into next January
+  if (
+    !date ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month! - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    throw new SearchQueryError(
+      `Invalid date in ${operator}:${value}, use YYYY-MM-DD or YYYY/MM/DD`,
+    );
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+const getCategory = (value: string) => {
+  const normalize = (text: string) => text.toLowerCase().replace(/[^a-z]/g, '');
+  const category = EMAIL_CATEGORIES.find(
+    candidate => normalize(candidate) === normalize(value),
+  );
+  if (!category) {
+    throw new SearchQueryError(
+      `Unknown category "${value}", use one of: ${EMAIL_CATEGORIES.join(', ')}`,
+    );
+  }
+  return category;
+};
+
+/**
+ * The clause an operator term compiles to. `in:anywhere` has none.
+ */
+const operatorClause = ({
+  operator,
+  value,
+  quoted,
+}: SearchTerm): estypes.QueryDslQueryContainer | null => {
+  const lower = value.toLowerCase();
+  switch (operator) {
+    case 'has':
+      if (!['attachment', 'attachments'].includes(lower)) {
+        throw new SearchQueryError(`Unknown has:${value}, use has:attachment`);
+      }
+      return { term: { hasAttachments: true } };
+    case 'is': {
+      const fields = IS_VALUES[lower];
+      if (!fields) {
+        throw new SearchQueryError(
+          `Unknown is:${value}, use one of: ${Object.keys(IS_VALUES).join(', ')}`,
+        );
+      }
+      const [field, flag] = Object.entries(fields)[0]!;
+      return { term: { [field]: flag } };
+    }
+    case 'in':
+      if (['anywhere', 'all'].includes(lower)) {
+        return null;
+      }
+      // A well-known folder in any account, or one folder by its exact name
+      return FOLDER_ROLES[lower]
+        ? { term: { folderRole: FOLDER_ROLES[lower] } }
+        : { term: { folder: value } };
+    case 'category':
+      return { term: { category: getCategory(value) } };
+    case 'account':
+      return { term: { account: value } };
+    case 'after':
+      return { range: { date: { gte: parseDate(operator, value) } } };
+    case 'before':
+      return { range: { date: { lt: parseDate(operator, value) } } };
+    default:
+      return textClause(FIELD_OPERATORS[operator!]!, value, quoted);
+  }
+};
+
+/**
+ * Compiles a Gmail-style query into Elasticsearch bool clauses. Free text
+ * must match across the text fields, `from:`, `to:`, `cc:` and `subject:`
+ * within theirs, and the other operators become exact filters. A leading
+ * `-` excludes whatever the term matches.
+ * @throws SearchQueryError for an operator value that can't be used.
+ */
+export const compileSearchQuery = (query: string): CompiledSearchQuery => {
+  const compiled: CompiledSearchQuery = {
+    must: [],
+    filter: [],
+    mustNot: [],
+    text: '',
+  };
+  const words: string[] = [];
+  const phrases: string[] = [];
+
+  for (const term of parseSearchQuery(query)) {
+    if (!term.operator) {
+      if (term.negated) {
+        compiled.mustNot.push(textClause(TEXT_FIELDS, term.value, term.quoted));
+      } else if (term.quoted) {
+        phrases.push(term.value);
+        compiled.must.push(textClause(TEXT_FIELDS, term.value, true));
+      } else {
+        words.push(term.value);
+      }
+      continue;
+    }
+
+    const clause = operatorClause(term);
+    if (!clause) {
+      continue;
+    }
+    if (term.negated) {
+      compiled.mustNot.push(clause);
+    } else if (FIELD_OPERATORS[term.operator]) {
+      compiled.must.push(clause);
+    } else {
+      compiled.filter.push(clause);
+    }
+  }
+
+  if (words.length) {
+    compiled.must.push(textClause(TEXT_FIELDS, words.join(' '), false));
+  }
+  compiled.text = [...words, ...phrases].join(' ');
+  return compiled;
+};
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { JsonFileStore } from './store.service';
+
+/**
+ * A reusable piece of text, inserted in the composers by typing
+ * `/<shortcut>`. `{{variable}}` placeholders are filled in on insertion.
+ */
+export interface Snippet {
+  id: string;
+  shortcut: string;
+  title: string;
+  body: string;
+  // The placeholders used in the body, in order of first appearance
+  variables: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SnippetInput = Partial<
+  Pick<Snippet, 'shortcut' | 'title' | 'body'>
+>;
+
+/**
+ * An invalid snippet or an unknown one, carrying the HTTP status the API
+ * should answer with.
+ */
+export class SnippetError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'SnippetError';
+  }
+}
+
+const SHORTCUT_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w.]*)\s*\}\}/g;
+const MAX_BODY_LENGTH = 20000;
+
+const store = new JsonFileStore<Snippet>('snippets');
+
+/**
+ * The distinct `{{variable}}` names in a text.
+ */
+export const getVariables = (body: string) =>
+  Array.from(new Set(Array.from(body.matchAll(VARIABLE_PATTERN), m => m[1]!)));
+
+/**
+ * Replaces the placeholders of a text. Placeholders without a value are
+ * left as they are, so the user can still fill them in.
+ */
+export const fillVariables = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    values[name] !== undefined ? values[name]! : placeholder,
+  );
+
+const normalizeSnippet = (
+  input: Partial<Snippet> | undefined,
+  defaults: Partial<Snippet> = {},
+) => {
+  const merged = { ...defaults, ...(input || {}) };
+  const shortcut = String(merged.shortcut || '')
+    .trim()
+    .replace(/^\//, '')
+    .toLowerCase();
+  if (!SHORTCUT_PATTERN.test(shortcut)) {
+    throw new SnippetError(
+      'Invalid shortcut: use up to 32 letters, digits, - or _',
+      400,
+    );
+  }
+  if (typeof merged.body !== 'string' || !merged.body.trim()) {
+    throw new SnippetError('Missing required field: body', 400);
+  }
+  if (merged.body.length > MAX_BODY_LENGTH) {
+    throw new SnippetError('Snippet body is too long', 413);
+  }
+
+  const taken = store
+    .values()
+    .find(snippet => snippet.shortcut === shortcut && snippet.id !== merged.id);
+  if (taken) {
+    throw new SnippetError(`Shortcut /${shortcut} is already in use`, 409);
+  }
+
+  return {
+    shortcut,
+    title: String(merged.title || shortcut).trim(),
+    body: merged.body as string,
+    variables: getVariables(merged.body),
+  };
+};
+
+/**
+ * Snippets ordered by shortcut.
+ */
+export const listSnippets = () =>
+  store.values().sort((a, b) => a.shortcut.localeCompare(b.shortcut));
+
+export const getSnippet = (id: string) => store.get(id);
+
+export const createSnippet = async (input: SnippetInput) => {
+  const now = new Date().toISOString();
+  const snippet: Snippet = {
+    id: crypto.randomUUID(),
+    ...normalizeSnippet(input),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store.set(snippet.id, snippet);
+  return snippet;
+};
+
+/**
+ * Changes a snippet. Omitted fields keep their current values.
+ */
+export const updateSnippet = async (id: string, input: SnippetInput) => {
+  const existing = store.get(id);
+  if (!existing) {
+    throw new SnippetError('Snippet not found', 404);
+  }
+  const snippet: Snippet = {
+    ...existing,
+    ...normalizeSnippet({ ...input, id }, existing),
+    updatedAt: new Date().toISOString(),
+  };
+  await store.set(id, snippet);
+  return snippet;
+};
+
+export const deleteSnippet = async (id: string) => {
+  const existing = store.get(id);
+  if (!existing) {
+    throw new SnippetError('Snippet not found', 404);
+  }
+  await store.delete(id);
+  return existing;
+};
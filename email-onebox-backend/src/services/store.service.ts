@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+
+export const DATA_DIR =
+  process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+/**
+ * A small file-backed key/value store for state that has to survive restarts.
+ * Records are kept in memory and flushed to `<DATA_DIR>/<name>.json` on every
+ * write. Writes are serialized and go through a temp file so a crash mid-write
+ * never leaves a truncated file behind.
+ */
+export class JsonFileStore<T> {
+  private records: Record<string, T> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private readonly filePath: string;
+
+  constructor(name: string) {
+    this.filePath = path.join(DATA_DIR, `${name}.json`);
+  }
+
+  get(key: string): T | undefined {
+    return this.load()[key];
+  }
+
+  has(key: string): boolean {
+    return key in this.load();
+  }
+
+  /**
+   * Whether the store has ever been written, even if it is empty now.
+   */
+  exists(): boolean {
+    return fs.existsSync(this.filePath);
+  }
+
+  keys(): string[] {
+    return Object.keys(this.load());
+  }
+
+  values(): T[] {
+    return Object.values(this.load());
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    this.load()[key] = value;
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<boolean> {
+    const records = this.load();
+    if (!(key in records)) {
+      return false;
+    }
+    delete records[key];
+    await this.persist();
+    return true;
+  }
+
+  private load(): Record<string, T> {
+    if (this.records) {
+      return this.records;
+    }
+
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf8');
+      this.records = JSON.parse(raw) as Record<string, T>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error reading store ${this.filePath}:`, error);
+      }
+      this.records = {};
+    }
+    return this.records;
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.records, null, 2);
+    this.writeChain = this.writeChain
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.promises.mkdir(path.dirname(this.filePath), {
+          recursive: true,
+        });
+        await fs.promises.writeFile(tmpPath, snapshot, 'utf8');
+        await fs.promises.rename(tmpPath, this.filePath);
+      });
+    return this.writeChain;
+  }
+}
@@ -0,0 +1,86 @@
+import { JsonFileStore } from './store.service';
+
+/**
+ * A message at or below the checkpoint that couldn't be fetched, parsed or
+ * indexed, retried on the following syncs.
+ */
+export interface FailedMessage {
+  uid: number;
+  attempts: number;
+  error: string;
+}
+
+/**
+ * How far a mailbox has been synced. UIDs are only comparable while the
+ * mailbox's UIDVALIDITY stays the same, so both are stored together.
+ */
+export interface SyncCheckpoint {
+  account: string;
+  folder: string;
+  uidValidity: number;
+  lastUid: number;
+  // Missing in checkpoints saved before failures were recorded
+  failed?: FailedMessage[];
+  // HIGHESTMODSEQ the stored flags were last brought up to date at, on
+  // servers with CONDSTORE
+  flagsModseq?: string;
+  updatedAt: string;
+}
+
+const store = new JsonFileStore<SyncCheckpoint>('sync-state');
+
+const checkpointKey = (account: string, folder: string) =>
+  `${account}:${folder}`;
+
+/**
+ * Returns the stored checkpoint for an account/folder pair, if any.
+ */
+export const getCheckpoint = (
+  account: string,
+  folder: string,
+): SyncCheckpoint | undefined => store.get(checkpointKey(account, folder));
+
+/**
+ * Records the highest UID that has been processed for a mailbox, and the
+ * messages up to it that failed and are still to be retried.
+ */
+export const saveCheckpoint = async (
+  account: string,
+  folder: string,
+  uidValidity: number,
+  lastUid: number,
+  failed: FailedMessage[] = [],
+) => {
+  // Mod-sequences, like UIDs, only carry over while UIDVALIDITY holds
+  const previous = getCheckpoint(account, folder);
+  await store.set(checkpointKey(account, folder), {
+    account,
+    folder,
+    uidValidity,
+    lastUid,
+    failed,
+    ...(previous?.uidValidity === uidValidity && previous.flagsModseq
+      ? { flagsModseq: previous.flagsModseq }
+      : {}),
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+/**
+ * Records the HIGHESTMODSEQ a mailbox's flags were refreshed at, so the next
+ * refresh only asks for what changed since.
+ */
+export const saveFlagsModseq = async (
+  account: string,
+  folder: string,
+  flagsModseq: string,
+) => {
+  const checkpoint = getCheckpoint(account, folder);
+  if (checkpoint) {
+    await store.set(checkpointKey(account, folder), {
+      ...checkpoint,
+      flagsModseq,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+};
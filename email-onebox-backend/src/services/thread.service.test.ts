@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import {
+  EmailDocument,
+  findThreadIdByMessageIds,
+  findThreadIdBySubject,
+  getEmailsWithoutThread,
+  updateEmailFields,
+} from './elasticsearch.service';
+import {
+  backfillThreadIds,
+  computeThreadFields,
+  normalizeSubject,
+} from './thread.service';
+
+jest.mock('./elasticsearch.service', () => ({
+  findThreadIdByMessageIds: jest.fn(),
+  findThreadIdBySubject: jest.fn(),
+  getEmailsByThreadIds: jest.fn(),
+  getEmailsWithoutThread: jest.fn(),
+  updateEmailFields: jest.fn(),
+  SUBJECT_THREAD_WINDOW_MS: 30 * 24 * 60 * 60 * 1000,
+}));
+
+const findByMessageIds = jest.mocked(findThreadIdByMessageIds);
+const findBySubject = jest.mocked(findThreadIdBySubject);
+const getWithoutThread = jest.mocked(getEmailsWithoutThread);
+const updateFields = jest.mocked(updateEmailFields);
+
+const hash = (seed: string) =>
+  crypto.createHash('sha1').update(seed).digest('hex').slice(0, 16);
+
+const makeEmail = (fields: Partial<EmailDocument>) =>
+  ({ account: 'me@example.com', ...fields }) as EmailDocument;
+
+beforeEach(() => {
+  jest.resetAllMocks();
+  findByMessageIds.mockResolvedValue(undefined);
+  findBySubject.mockResolvedValue(undefined);
+});
+
+describe('normalizeSubject', () => {
+  it('strips reply and forward prefixes and list tags', () => {
+    expect(normalizeSubject('Re: Fwd: [team] AW:  Lunch   plans')).toBe(
+      'lunch plans',
+    );
+    expect(normalizeSubject('RE[2]: Lunch')).toBe('lunch');
+    expect(normalizeSubject()).toBe('');
+  });
+
+  it('keeps prefixes in the middle of the subject', () => {
+    expect(normalizeSubject('Notes re: lunch')).toBe('notes re: lunch');
+  });
+});
+
+describe('computeThreadFields', () => {
+  it('gives a new conversation an id derived from its Message-ID', async () => {
+    const fields = await computeThreadFields(
+      { messageId: '<root@x>', subject: 'Lunch' },
+      'me@example.com',
+    );
+    expect(fields).toEqual({
+      threadId: hash('<root@x>'),
+      normalizedSubject: 'lunch',
+      inReplyTo: null,
+      references: [],
+    });
+    expect(findBySubject).not.toHaveBeenCalled();
+  });
+
+  it('joins the thread stored with an indexed ancestor', async () => {
+    findByMessageIds.mockResolvedValue('stored-thread');
+    const fields = await computeThreadFields(
+      {
+        messageId: '<c@x>',
+        subject: 'Re: Lunch',
+        inReplyTo: '<b@x>',
+        references: ['<root@x>', '<b@x>'],
+      },
+      'me@example.com',
+    );
+    expect(findByMessageIds).toHaveBeenCalledWith(['<root@x>', '<b@x>']);
+    expect(fields.threadId).toBe('stored-thread');
+    expect(fields.inReplyTo).toBe('<b@x>');
+  });
+
+  it('adds In-Reply-To as the last message to look up', async () => {
+    await computeThreadFields(
+      { messageId: '<c@x>', inReplyTo: '<b@x>', references: ['<root@x>'] },
+      'me@example.com',
+    );
+    expect(findByMessageIds).toHaveBeenCalledWith(['<root@x>', '<b@x>']);
+  });
+
+  it('falls back to the id the root of the chain gets itself', async () => {
+    const fields = await computeThreadFields(
+      { messageId: '<b@x>', inReplyTo: '<root@x>' },
+      'me@example.com',
+    );
+    expect(fields.threadId).toBe(hash('<root@x>'));
+    expect(findBySubject).not.toHaveBeenCalled();
+  });
+
+  it('matches replies without references by subject', async () => {
+    findBySubject.mockResolvedValue('subject-thread');
+    const date = new Date('2024-03-01T10:00:00Z');
+    const fields = await computeThreadFields(
+      { messageId: '<b@x>', subject: 'RE: Lunch', date },
+      'me@example.com',
+    );
+    expect(findBySubject).toHaveBeenCalledWith('me@example.com', 'lunch', date);
+    expect(fields.threadId).toBe('subject-thread');
+  });
+
+  it('starts a new thread when no reply matches the subject', async () => {
+    const fields = await computeThreadFields(
+      { messageId: '<b@x>', subject: 'Re: Lunch' },
+      'me@example.com',
+    );
+    expect(fields.threadId).toBe(hash('<b@x>'));
+  });
+});
+
+describe('backfillThreadIds', () => {
+  it('threads replies onto conversations assigned earlier in the run', async () => {
+    getWithoutThread
+      .mockResolvedValueOnce([
+        makeEmail({
+          messageId: '<b@x>',
+          subject: 'Re: Lunch',
+          date: '2024-03-02T00:00:00Z',
+        }),
+        makeEmail({
+          messageId: '<a@x>',
+          subject: 'Lunch',
+          date: '2024-03-01T00:00:00Z',
+        }),
+        makeEmail({
+          messageId: '<c@x>',
+          subject: 'Re: Lunch',
+          date: '2024-06-01T00:00:00Z',
+        }),
+      ])
+      .mockResolvedValueOnce([]);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await backfillThreadIds();
+
+    expect(getWithoutThread).toHaveBeenLastCalledWith(200, '<c@x>');
+    expect(updateFields.mock.calls).toEqual([
+      ['<a@x>', expect.objectContaining({ threadId: hash('<a@x>') })],
+      ['<b@x>', expect.objectContaining({ threadId: hash('<a@x>') })],
+      // Outside the window since the last reply, so a new conversation
+      ['<c@x>', expect.objectContaining({ threadId: hash('<c@x>') })],
+    ]);
+  });
+});
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import { ParsedMail } from 'mailparser';
+import {
+  EmailDocument,
+  EmailThreadFields,
+  findThreadIdByMessageIds,
+  findThreadIdBySubject,
+  getEmailsByThreadIds,
+  getEmailsWithoutThread,
+  SUBJECT_THREAD_WINDOW_MS,
+  updateEmailFields,
+} from './elasticsearch.service';
+
+// Reply/forward prefixes in the languages we commonly see, plus list tags
+const SUBJECT_PREFIX =
+  /^\s*((re|fwd?|aw|wg|sv|vs|antw|tr)(\[\d+\])?\s*:\s*|\[[^\]]*\]\s*)+/i;
+const REPLY_PREFIX = /^\s*(re|fwd?|aw|wg|sv|vs|antw|tr)(\[\d+\])?\s*:/i;
+
+/**
+ * The headers threading is computed from.
+ */
+export interface ThreadHeaders {
+  messageId: string;
+  subject?: string | undefined;
+  date?: Date | undefined;
+  inReplyTo?: string | null | undefined;
+  references?: string[] | undefined;
+}
+
+/**
+ * A conversation as shown in the email list.
+ */
+export interface ThreadSummary {
+  threadId: string;
+  messageCount: number;
+  unreadCount: number;
+  participants: string[];
+}
+
+/**
+ * Strips reply/forward prefixes and list tags so "Re: [team] Lunch" and
+ * "Lunch" compare equal.
+ */
+export const normalizeSubject = (subject = '') =>
+  subject.replace(SUBJECT_PREFIX, '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Derives a short, stable id from the Message-ID that started a thread.
+ */
+const hashThreadId = (seed: string) =>
+  crypto.createHash('sha1').update(seed).digest('hex').slice(0, 16);
+
+/**
+ * Pulls the threading headers out of a parsed email.
+ */
+export const getThreadHeaders = (parsedEmail: ParsedMail): ThreadHeaders => {
+  const references = parsedEmail.references
+    ? ([] as string[]).concat(parsedEmail.references)
+    : [];
+  return {
+    messageId: parsedEmail.messageId || '',
+    subject: parsedEmail.subject,
+    date: parsedEmail.date,
+    inReplyTo: parsedEmail.inReplyTo || null,
+    references,
+  };
+};
+
+/**
+ * Works out which conversation a message belongs to.
+ *
+ * Messages that reference others join the thread stored with an already
+ * indexed ancestor, the root first and the direct parent last, or else get
+ * an id derived from the root of their References chain. Since a thread's
+ * first message has no references, hashing its own Message-ID gives the
+ * same id, so threads come out the same whatever order messages are indexed
+ * in. Replies whose client dropped the headers fall back to a recent thread
+ * in the same account with the same subject.
+ */
+export const computeThreadFields = async (
+  headers: ThreadHeaders,
+  account: string,
+): Promise<EmailThreadFields> => {
+  const normalizedSubject = normalizeSubject(headers.subject);
+  const inReplyTo = headers.inReplyTo || null;
+  const references = Array.from(
+    new Set([...(headers.references || []), ...(inReplyTo ? [inReplyTo] : [])]),
+  );
+  const fields = { normalizedSubject, inReplyTo, references };
+
+  if (references.length > 0) {
+    const threadId =
+      (await findThreadIdByMessageIds(references)) ||
+      hashThreadId(references[0]!);
+    return { threadId, ...fields };
+  }
+
+  if (normalizedSubject && REPLY_PREFIX.test(headers.subject || '')) {
+    const threadId = await findThreadIdBySubject(
+      account,
+      normalizedSubject,
+      headers.date || new Date(),
+    );
+    if (threadId) {
+      return { threadId, ...fields };
+    }
+  }
+
+  return { threadId: hashThreadId(headers.messageId), ...fields };
+};
+
+/**
+ * Loads all messages of a conversation, oldest first.
+ */
+export const getThread = (threadId: string) => getEmailsByThreadIds([threadId]);
+
+/**
+ * Collects the distinct senders of a conversation in order of appearance.
+ */
+const getParticipants = (emails: EmailDocument[]) =>
+  Array.from(
+    new Set(
+      emails
+        .map(email => email.from)
+        .filter((from): from is string => Boolean(from)),
+    ),
+  );
+
+/**
+ * Counts the messages of a conversation and lists who took part in it.
+ */
+export const summarizeThread = (
+  threadId: string,
+  emails: EmailDocument[],
+): ThreadSummary => ({
+  threadId,
+  messageCount: emails.length,
+  unreadCount: emails.filter(email => email.isRead === false).length,
+  participants: getParticipants(emails),
+});
+
+/**
+ * Adds message counts and participants to the rows of a threaded email list.
+ * Counts cover the whole conversation, not just the messages that matched.
+ */
+export const addThreadSummaries = async (emails: EmailDocument[]) => {
+  const threadIds = Array.from(
+    new Set(emails.map(email => email.threadId).filter(Boolean)),
+  );
+  const messages = await getEmailsByThreadIds(threadIds, [
+    'threadId',
+    'from',
+    'isRead',
+  ]);
+
+  const byThread = new Map<string, EmailDocument[]>();
+  messages.forEach(message => {
+    const thread = byThread.get(message.threadId) || [];
+    thread.push(message);
+    byThread.set(message.threadId, thread);
+  });
+
+  return emails.map(email => ({
+    ...email,
+    thread: summarizeThread(
+      email.threadId,
+      byThread.get(email.threadId) || [email],
+    ),
+  }));
+};
+
+/**
+ * Assigns conversations to emails indexed before threading existed. Their
+ * reference headers weren't stored, so they can only be grouped by subject.
+ * Emails are resolved oldest first, and threads assigned during the run are
+ * kept in memory, because searches don't see them until the index refreshes.
+ */
+export const backfillThreadIds = async () => {
+  const emails: EmailDocument[] = [];
+  let after: string | undefined;
+  for (;;) {
+    // Pages through by Message-ID, so updated emails dropping out of the
+    // query (once the index refreshes) don't shift the pages
+    const page = await getEmailsWithoutThread(200, after);
+    if (page.length === 0) {
+      break;
+    }
+    after = page[page.length - 1]!.messageId;
+    emails.push(...page);
+  }
+
+  const getTime = (email: EmailDocument) =>
+    email.date ? new Date(email.date).getTime() : 0;
+  emails.sort((a, b) => getTime(a) - getTime(b));
+
+  // Latest thread per account and subject assigned so far
+  const assigned = new Map<string, { threadId: string; time: number }>();
+  for (const email of emails) {
+    const time = getTime(email);
+    const normalizedSubject = normalizeSubject(email.subject);
+    const key = `${email.account}\n${normalizedSubject}`;
+    const known = assigned.get(key);
+
+    const fields =
+      known &&
+      normalizedSubject &&
+      REPLY_PREFIX.test(email.subject || '') &&
+      time - known.time <= SUBJECT_THREAD_WINDOW_MS
+        ? {
+            threadId: known.threadId,
+            normalizedSubject,
+            inReplyTo: null,
+            references: [],
+          }
+        : await computeThreadFields(
+            {
+              messageId: email.messageId,
+              subject: email.subject,
+              date: email.date ? new Date(email.date) : undefined,
+            },
+            email.account,
+          );
+    assigned.set(key, { threadId: fields.threadId, time });
+    await updateEmailFields(email.messageId, { ...fields });
+  }
+
+  if (emails.length > 0) {
+    console.log(
+      `🧵 Assigned conversations to ${emails.length} existing emails.`,
+    );
+  }
+};
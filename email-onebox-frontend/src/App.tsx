@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { ToastContainer, toast } from 'react-toastify';
 import 'react-toastify/dist/ReactToastify.css';
@@ -10,9 +10,11 @@ import AdvancedSearchBar from './components/AdvancedSearchBar';
 import EmailList from './components/EmailList';
 import EmailDetail from './components/EmailDetail';
 import { ThemeProvider } from './contexts/ThemeContext';
-import { Email, emailService } from './services/api';
+import { Draft, Email, EmailFacets, EmailPage, emailService, MailboxAction } from './services/api';
 import FloatingActionButton from './components/FloatingActionButton';
 import ComposeModal from './components/ComposeModal';
+import DraftList from './components/DraftList';
+import { buildSearchQuery, buildViewQuery } from './utils/searchQueryUtils';
 
 interface SearchFilters {
   query: string;
@@ -24,6 +26,15 @@ interface SearchFilters {
   isUnread: boolean;
 }
 
+const announceResults = (page: EmailPage | null) => {
+  if (!page) return;
+  if (page.total > 0) {
+    toast.success(`Found ${page.total} emails`);
+  } else {
+    toast.info('No emails found for your search criteria');
+  }
+};
+
 function App() {
   const [allEmails, setAllEmails] = useState<Email[]>([]);
   const [emails, setEmails] = useState<Email[]>([]);
@@ -36,141 +47,144 @@ function App() {
   const [selectedAccount, setSelectedAccount] = useState('');
   const [activeFilter, setActiveFilter] = useState('');
   const [showComposeModal, setShowComposeModal] = useState(false);
+  const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [openDraftId, setOpenDraftId] = useState<string | null>(null);
+  const [totalEmails, setTotalEmails] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [facets, setFacets] = useState<EmailFacets | null>(null);
+  // The search the loaded pages belong to, for fetching the next one
+  const currentSearch = useRef({ query: '', account: '', quickFilter: '' });
+  // The same search before the folder and quick filter narrow it
+  const searchBase = useRef({ query: '', account: '' });
 
-  // Filter emails based on selected folder and active filters
-  const filterEmails = (emailList: Email[], folder: string, quickFilter: string) => {
-    let filtered = emailList;
-    
-    // Filter by folder first
-    switch (folder) {
-      case 'inbox':
-        filtered = emailList.filter(email => 
-          email._source?.boxName?.toLowerCase() === 'inbox' || 
-          !email._source?.boxName
-        );
-        break;
-      case 'sent':
-        filtered = emailList.filter(email => 
-          email._source?.boxName?.toLowerCase() === 'sent'
-        );
-        break;
-      case 'drafts':
-        filtered = emailList.filter(email => 
-          email._source?.boxName?.toLowerCase() === 'drafts'
-        );
-        break;
-      case 'starred':
-        filtered = emailList.filter(email => 
-          email._source?.subject?.includes('⭐') || 
-          email._source?.subject?.toLowerCase().includes('important') ||
-          email._source?.subject?.toLowerCase().includes('urgent') ||
-          (email._id?.length || 0) % 5 === 0 // Deterministic "starred" logic
-        );
-        break;
-      case 'archive':
-        filtered = emailList.filter(email => 
-          email._source?.boxName?.toLowerCase() === 'archive'
-        );
-        break;
-      case 'trash':
-        filtered = emailList.filter(email => 
-          email._source?.boxName?.toLowerCase() === 'trash'
-        );
-        break;
-      default:
-        // For other folders or 'all', show all emails
-        break;
-    }
-    
-    // Apply quick filter if active
-    if (quickFilter) {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      switch (quickFilter) {
-        case 'unread':
-          // Deterministic "unread" logic based on email properties
-          filtered = filtered.filter(email => 
-            (email._id?.length || 0) % 3 === 0 || 
-            email._source?.subject?.toLowerCase().includes('new')
-          );
-          break;
-        case 'today':
-          filtered = filtered.filter(email => {
-            const emailDate = new Date(email._source?.date);
-            emailDate.setHours(0, 0, 0, 0);
-            return emailDate.getTime() === today.getTime();
-          });
-          break;
-        case 'attachments':
-          // Deterministic attachment logic
-          filtered = filtered.filter(email => 
-            email._source?.body?.toLowerCase().includes('attachment') || 
-            email._source?.body?.toLowerCase().includes('attached') ||
-            email._source?.subject?.toLowerCase().includes('attachment') ||
-            (email._id?.length || 0) % 4 === 0
-          );
-          break;
-        case 'important':
-          filtered = filtered.filter(email => 
-            email._source?.subject?.includes('URGENT') || 
-            email._source?.subject?.toLowerCase().includes('important') ||
-            email._source?.subject?.toLowerCase().includes('priority') ||
-            email._source?.from?.toLowerCase().includes('noreply') === false
-          );
-          break;
-      }
-    }
-    
-    return filtered;
-  };
-  
-  // Update emails when folder or filter changes
+  // Drafts copied to IMAP are listed once, as server drafts
   useEffect(() => {
-    const filtered = filterEmails(allEmails, selectedFolder, activeFilter);
-    setEmails(filtered);
-  }, [allEmails, selectedFolder, activeFilter]);
+    if (selectedFolder !== 'drafts') {
+      setEmails(allEmails);
+      return;
+    }
+    const draftIds = new Set(drafts.map(draft => draft.messageId));
+    setEmails(allEmails.filter(email => !draftIds.has(email._source?.messageId)));
+  }, [allEmails, selectedFolder, drafts]);
+
+  const loadDrafts = useCallback(() => {
+    emailService.getDrafts()
+      .then(setDrafts)
+      .catch(err => console.error('Failed to load drafts:', err));
+  }, []);
 
-  // Load initial emails
   useEffect(() => {
-    handleAdvancedSearch('', {
-      query: '',
-      account: '',
-      sender: '',
-      dateFrom: '',
-      dateTo: '',
-      hasAttachment: false,
-      isUnread: false,
-    });
+    if (selectedFolder === 'drafts') loadDrafts();
+  }, [selectedFolder, loadDrafts]);
+
+  // Sidebar and header counts for the whole search, not just the loaded
+  // pages. They take the quick filter but not the folder, so each folder's
+  // count is the total its list would show.
+  const loadFacets = useCallback(() => {
+    const search = currentSearch.current;
+    const { query, account } = searchBase.current;
+    emailService.getFacets(buildViewQuery(query, '', search.quickFilter), account)
+      .then(result => {
+        if (currentSearch.current === search) setFacets(result);
+      })
+      .catch(err => console.error('Failed to load email counts:', err));
   }, []);
 
-  const handleAdvancedSearch = async (query: string, filters: SearchFilters) => {
+  // Loads the first page of a search within a folder and quick filter, with
+  // the sidebar counts for the same search
+  const runSearch = useCallback(async (base: { query: string; account: string }, folder: string, quickFilter: string) => {
     setLoading(true);
     setError(null);
     try {
-      // For now, we'll just use the basic search functionality
-      // In a real app, you'd send all filters to the backend
-      const results = await emailService.searchEmails(query || filters.query, filters.account);
-      setAllEmails(results);
+      searchBase.current = base;
+      const search = { query: buildViewQuery(base.query, folder, quickFilter), account: base.account, quickFilter };
+      currentSearch.current = search;
+      loadFacets();
+      const page = await emailService.searchEmails(search.query, search.account);
+      if (currentSearch.current !== search) return null;
+      setAllEmails(page.emails);
+      setTotalEmails(page.total);
+      setNextCursor(page.nextCursor);
       setSelectedEmail(null);
-      
-      if (results.length > 0) {
-        toast.success(`Found ${results.length} emails`);
-      } else {
-        toast.info('No emails found for your search criteria');
-      }
+      return page;
     } catch (err: any) {
       const errorMsg = err.message || 'Failed to fetch emails';
       setError(errorMsg);
       toast.error(errorMsg);
       console.error('Search error:', err);
+      return null;
     } finally {
       setLoading(false);
     }
+  }, [loadFacets]);
+
+  // Load initial emails
+  useEffect(() => {
+    runSearch({ query: '', account: '' }, 'inbox', '').then(announceResults);
+  }, [runSearch]);
+
+  const handleAdvancedSearch = async (query: string, filters: SearchFilters) => {
+    const page = await runSearch(
+      { query: buildSearchQuery(query || filters.query, filters), account: filters.account },
+      selectedFolder,
+      activeFilter
+    );
+    announceResults(page);
+  };
+
+  // Infinite scroll: appends the next page of the current search
+  const loadMoreEmails = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const search = currentSearch.current;
+    setLoadingMore(true);
+    try {
+      const page = await emailService.searchEmails(search.query, search.account, { cursor: nextCursor });
+      // A new search started meanwhile
+      if (currentSearch.current !== search) return;
+      setAllEmails(prev => {
+        const loaded = new Set(prev.map(email => email._id));
+        return [...prev, ...page.emails.filter(email => !loaded.has(email._id))];
+      });
+      setTotalEmails(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to load more emails');
+      setNextCursor(null);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore]);
+
+  // Apply a change to one email in both the loaded list and the open detail view
+  const updateEmailSource = (emailId: string, changes: Partial<Email['_source']>) => {
+    const applyChanges = (email: Email) =>
+      email._id === emailId ? { ...email, _source: { ...email._source, ...changes } } : email;
+    setAllEmails(prev => prev.map(applyChanges));
+    setSelectedEmail(prev => (prev ? applyChanges(prev) : prev));
   };
 
   const handleEmailSelect = (email: Email) => {
     setSelectedEmail(email);
+
+    if (email._source?.isRead === false) {
+      updateEmailSource(email._id, { isRead: true });
+      emailService.setEmailFlag(email._id, 'read').catch((err: any) => {
+        updateEmailSource(email._id, { isRead: false });
+        console.error('Mark as read error:', err);
+      });
+    }
+  };
+
+  const handleToggleStar = async (email: Email) => {
+    const starred = !email._source?.isStarred;
+    updateEmailSource(email._id, { isStarred: starred });
+    try {
+      await emailService.setEmailFlag(email._id, starred ? 'star' : 'unstar');
+    } catch (err: any) {
+      updateEmailSource(email._id, { isStarred: !starred });
+      toast.error(err.message || 'Failed to update star');
+    }
   };
 
   const handleRefresh = async () => {
@@ -193,6 +207,32 @@ function App() {
     }
   };
 
+  const handleMailboxAction = async (email: Email, action: MailboxAction) => {
+    try {
+      const location = await emailService.moveEmail(email._id, action);
+      updateEmailSource(email._id, {
+        boxName: location.folder,
+        folderRole: location.folderRole || undefined
+      });
+      if (selectedFolder !== 'starred' && location.folderRole !== selectedFolder) {
+        // No longer part of the folder being listed
+        setAllEmails(prev => prev.filter(e => e._id !== email._id));
+        setTotalEmails(prev => Math.max(0, prev - 1));
+      }
+      loadFacets();
+      if (action !== 'restore') {
+        setSelectedEmail(null);
+      }
+      toast.success(
+        action === 'archive' ? 'Email archived' :
+        action === 'trash' ? 'Email moved to Trash' :
+        `Email restored to ${location.folder}`
+      );
+    } catch (err: any) {
+      toast.error(err.message || `Failed to ${action} email`);
+    }
+  };
+
   const toggleSidebar = () => {
     setSidebarOpen(!sidebarOpen);
   };
@@ -201,6 +241,7 @@ function App() {
     setSelectedFolder(folder);
     setSidebarOpen(false);
     setActiveFilter(''); // Clear any active quick filter
+    runSearch(searchBase.current, folder, '');
     
     const folderName = folder.charAt(0).toUpperCase() + folder.slice(1);
     toast.info(`Switched to ${folderName} folder`);
@@ -210,21 +251,14 @@ function App() {
     setSelectedAccount(account);
     setActiveFilter(''); // Clear any active quick filter
     // Trigger search with selected account
-    handleAdvancedSearch('', {
-      query: '',
-      account: account,
-      sender: '',
-      dateFrom: '',
-      dateTo: '',
-      hasAttachment: false,
-      isUnread: false,
-    });
+    runSearch({ query: '', account }, selectedFolder, '');
     toast.info(account ? `Switched to ${account}` : 'Showing all accounts');
   };
 
   const handleQuickFilter = (filter: string) => {
     const newFilter = activeFilter === filter ? '' : filter; // Toggle filter
     setActiveFilter(newFilter);
+    runSearch(searchBase.current, selectedFolder, newFilter);
     
     const filterName = filter === 'unread' ? 'unread emails' :
                       filter === 'today' ? "today's emails" :
@@ -243,37 +277,23 @@ function App() {
     setSidebarOpen(false);
   };
 
-  const unreadCount = allEmails.filter(email => 
-    // Consistent unread logic matching the filter
-    (email._id?.length || 0) % 3 === 0 || 
-    email._source?.subject?.toLowerCase().includes('new')
-  ).length;
+  const handleOpenDraft = (draft: Draft) => {
+    setOpenDraftId(draft.id);
+    setShowComposeModal(true);
+  };
 
-  // Get available accounts from email data
-  const availableAccounts = React.useMemo(() => {
-    const accounts = new Set<string>();
-    allEmails.forEach(email => {
-      if (email._source?.account) {
-        accounts.add(email._source.account);
-      }
-      // Also check the 'to' field for received emails
-      if (Array.isArray(email._source?.to)) {
-        email._source.to.forEach(addr => accounts.add(addr));
-      } else if (email._source?.to) {
-        accounts.add(email._source.to);
-      }
-    });
-    const filtered = Array.from(accounts).filter(account => 
-      account && account.includes('@') && !account.includes('no-reply')
-    );
-    console.log('Available accounts detected:', filtered);
-    return filtered;
-  }, [allEmails]);
+  const handleDeleteDraft = async (draft: Draft) => {
+    try {
+      await emailService.deleteDraft(draft.id);
+      setDrafts(prev => prev.filter(d => d.id !== draft.id));
+      toast.info('Draft discarded');
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to discard draft');
+    }
+  };
+
+  const unreadCount = facets?.unread ?? 0;
 
-  // Use the first available account or selected account
-  const currentFromAccount = selectedAccount || availableAccounts[0] || 'your.email@company.com';
-  
-  console.log('Current from account:', currentFromAccount, 'Selected account:', selectedAccount);
 
   return (
     <ThemeProvider>
@@ -296,7 +316,7 @@ function App() {
               onAccountSelect={handleAccountSelect}
               onQuickFilter={handleQuickFilter}
               onCompose={handleCompose}
-              emails={allEmails}
+              facets={facets}
               activeFilter={activeFilter}
             />
           </AnimatePresence>
@@ -327,13 +347,15 @@ function App() {
               >
                 <div className="email-count">
                   <motion.span
-                    key={emails.length}
+                    key={totalEmails}
                     initial={{ scale: 0.8 }}
                     animate={{ scale: 1 }}
                     transition={{ type: "spring", stiffness: 300 }}
                   >
-                    {emails.length} email{emails.length !== 1 ? 's' : ''} in {selectedFolder.charAt(0).toUpperCase() + selectedFolder.slice(1)}
+                    {selectedFolder === 'drafts' && drafts.length > 0 && `${drafts.length} draft${drafts.length !== 1 ? 's' : ''}, `}
+                    {totalEmails} email{totalEmails !== 1 ? 's' : ''} in {selectedFolder.charAt(0).toUpperCase() + selectedFolder.slice(1)}
                     {activeFilter && ` (${activeFilter})`}
+                    {nextCursor && ` · ${allEmails.length} of ${totalEmails} loaded`}
                   </motion.span>
                   {loading && (
                     <motion.div 
@@ -345,11 +367,20 @@ function App() {
                     </motion.div>
                   )}
                 </div>
-                <EmailList 
-                  emails={emails} 
-                  onEmailSelect={handleEmailSelect}
-                  selectedEmailId={selectedEmail?._id}
-                />
+                {selectedFolder === 'drafts' && (
+                  <DraftList drafts={drafts} onOpen={handleOpenDraft} onDelete={handleDeleteDraft} />
+                )}
+                {(selectedFolder !== 'drafts' || drafts.length === 0 || emails.length > 0) && (
+                  <EmailList 
+                    emails={emails} 
+                    onEmailSelect={handleEmailSelect}
+                    onToggleStar={handleToggleStar}
+                    selectedEmailId={selectedEmail?._id}
+                    hasMore={!!nextCursor}
+                    loadingMore={loadingMore}
+                    onLoadMore={loadMoreEmails}
+                  />
+                )}
               </motion.div>
               
               <motion.div 
@@ -358,7 +389,7 @@ function App() {
                 animate={{ x: 0, opacity: 1 }}
                 transition={{ delay: 0.2 }}
               >
-                <EmailDetail email={selectedEmail} />
+                <EmailDetail email={selectedEmail} onMailboxAction={handleMailboxAction} />
               </motion.div>
             </div>
           </div>
@@ -372,9 +403,14 @@ function App() {
         
         <ComposeModal 
           isOpen={showComposeModal}
-          onClose={() => setShowComposeModal(false)}
-          defaultAccount={currentFromAccount}
-          availableAccounts={availableAccounts}
+          onClose={() => {
+            setShowComposeModal(false);
+            setOpenDraftId(null);
+          }}
+          onReopen={() => setShowComposeModal(true)}
+          draftId={openDraftId}
+          onDraftsChange={loadDrafts}
+          defaultAccount={selectedAccount}
         />
         
         <ToastContainer
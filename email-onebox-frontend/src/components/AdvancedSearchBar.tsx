@@ -64,7 +64,7 @@ const AdvancedSearchBar: React.FC<AdvancedSearchBarProps> = ({ onSearch, loading
           <span className="search-icon">🔍</span>
           <input
             type="text"
-            placeholder="Search emails, content, attachments..."
+            placeholder="Search emails, or try from:alice has:attachment is:unread"
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             className="search-input-enhanced"
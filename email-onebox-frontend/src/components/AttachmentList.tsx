@@ -0,0 +1,39 @@
+import React from 'react';
+import { Email, emailService } from '../services/api';
+
+interface AttachmentListProps {
+  email: Email;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Download links for an email's attachments. Inline images are left out.
+const AttachmentList: React.FC<AttachmentListProps> = ({ email }) => {
+  const attachments = (email._source?.attachments || []).filter(attachment => !attachment.inline);
+  if (attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <span style={{ display: 'inline-flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+      {attachments.map(attachment => (
+        <a
+          key={attachment.id}
+          className="email-attachments-value"
+          href={emailService.getAttachmentUrl(email._id, attachment.id)}
+          download={attachment.filename}
+          title={attachment.contentType}
+          style={{ textDecoration: 'none' }}
+        >
+          {attachment.filename} ({formatSize(attachment.size)})
+        </a>
+      ))}
+    </span>
+  );
+};
+
+export default AttachmentList;
@@ -0,0 +1,108 @@
+import React, { useRef } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { MAX_ATTACHMENT_BYTES } from '../services/api';
+
+interface ComposeAttachmentsProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+export const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Adds files to the current ones, rejecting any that would break the size limit
+export const addAttachments = (current: File[], added: File[]): File[] => {
+  const result = [...current];
+  let total = current.reduce((sum, file) => sum + file.size, 0);
+
+  added.forEach(file => {
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast.error(`${file.name} is too large (max ${formatSize(MAX_ATTACHMENT_BYTES)})`);
+    } else if (total + file.size > MAX_ATTACHMENT_BYTES) {
+      toast.error(`Attachments may add up to ${formatSize(MAX_ATTACHMENT_BYTES)}; ${file.name} was not added`);
+    } else {
+      total += file.size;
+      result.push(file);
+    }
+  });
+  return result;
+};
+
+// File picker and list of the files attached to an outgoing email
+const ComposeAttachments: React.FC<ComposeAttachmentsProps> = ({ files, onChange, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const total = files.reduce((sum, file) => sum + file.size, 0);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(addAttachments(files, Array.from(e.target.files || [])));
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <motion.button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          style={{
+            padding: '4px 8px',
+            fontSize: '12px',
+            border: '1px solid var(--border-color)',
+            borderRadius: '4px',
+            backgroundColor: 'var(--bg-secondary)',
+            color: 'var(--text-secondary)',
+            cursor: disabled ? 'not-allowed' : 'pointer'
+          }}
+        >
+          📎 Attach files
+        </motion.button>
+        <span style={{ color: 'var(--text-secondary)', fontSize: '12px' }}>
+          {files.length > 0
+            ? `${formatSize(total)} of ${formatSize(MAX_ATTACHMENT_BYTES)}`
+            : 'or drop files here'}
+        </span>
+        <input ref={inputRef} type="file" multiple hidden onChange={handleSelect} />
+      </div>
+
+      {files.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+          {files.map((file, index) => (
+            <span
+              key={`${file.name}-${index}`}
+              className="email-attachments-value"
+              style={{ display: 'inline-flex', alignItems: 'center', gap: '6px' }}
+            >
+              {file.name} ({formatSize(file.size)})
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, i) => i !== index))}
+                disabled={disabled}
+                title={`Remove ${file.name}`}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  cursor: disabled ? 'not-allowed' : 'pointer',
+                  color: 'var(--text-secondary)',
+                  padding: 0
+                }}
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComposeAttachments;
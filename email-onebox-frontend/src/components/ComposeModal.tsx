@@ -1,37 +1,237 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { toast } from 'react-toastify';
-import { emailService } from '../services/api';
+import { Account, BodyFormat, DraftFields, emailService, Snippet } from '../services/api';
+import { showDeliveryToast } from '../utils/outboxUtils';
+import { formatSignature, replaceSignature } from '../utils/signatureUtils';
+import { getSnippetVariables } from '../utils/snippetUtils';
+import ComposeAttachments, { addAttachments } from './ComposeAttachments';
+import ComposeToolbar from './ComposeToolbar';
+import SignatureEditor from './SignatureEditor';
+import SnippetManager from './SnippetManager';
+import { useSnippetMenu } from './SnippetMenu';
 
 interface ComposeModalProps {
   isOpen: boolean;
   onClose: () => void;
   defaultAccount?: string;
-  availableAccounts?: string[];
+  // Opens the modal again, e.g. when a send is undone
+  onReopen?: () => void;
+  // A saved draft to continue writing
+  draftId?: string | null;
+  // Called whenever a draft is saved or discarded
+  onDraftsChange?: () => void;
 }
 
-const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAccount, availableAccounts = [] }) => {
-  const [emailData, setEmailData] = useState({
-    to: '',
-    cc: '',
-    bcc: '',
-    subject: '',
-    body: '',
-    priority: 'normal'
-  });
+const AUTOSAVE_INTERVAL_MS = 5000;
+
+// Marks a body whose signature the user owns, e.g. a reopened draft, so it
+// is never swapped automatically
+const SIGNATURE_KEPT = '\u0000';
+
+const EMPTY_EMAIL = {
+  to: '',
+  cc: '',
+  bcc: '',
+  subject: '',
+  body: '',
+  format: 'plain' as BodyFormat,
+  priority: 'normal'
+};
+
+// A value for <input type="datetime-local"> in the browser's time zone
+const toLocalInputValue = (date: Date) => {
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+// Quick picks for scheduled sending: the next morning and the next Monday
+const getSchedulePresets = () => {
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  tomorrow.setHours(9, 0, 0, 0);
+
+  const monday = new Date();
+  monday.setDate(monday.getDate() + ((8 - monday.getDay()) % 7 || 7));
+  monday.setHours(9, 0, 0, 0);
+
+  return [
+    { label: 'Tomorrow 9 AM', value: toLocalInputValue(tomorrow) },
+    { label: 'Monday 9 AM', value: toLocalInputValue(monday) }
+  ];
+};
+
+const ComposeModal: React.FC<ComposeModalProps> = ({
+  isOpen,
+  onClose,
+  defaultAccount,
+  onReopen,
+  draftId: openDraftId,
+  onDraftsChange
+}) => {
+  const [emailData, setEmailData] = useState(EMPTY_EMAIL);
 
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [sending, setSending] = useState(false);
-  const [fromAccount, setFromAccount] = useState(defaultAccount || availableAccounts[0] || 'your.email@company.com');
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [fromAccount, setFromAccount] = useState(defaultAccount || '');
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [showSignatureEditor, setShowSignatureEditor] = useState(false);
+  const [showSnippets, setShowSnippets] = useState(false);
+  // The signature block currently in the body, as it was inserted
+  const insertedSignature = useRef('');
+
+  const currentAccount = accounts.find(account => account.email.toLowerCase() === fromAccount.toLowerCase());
+  const signatureBlock = formatSignature(currentAccount?.signature, emailData.format);
+  const snippetMenu = useSnippetMenu({
+    textareaRef: bodyRef,
+    value: emailData.body,
+    onChange: (value) => handleInputChange('body', value),
+    snippets,
+    variables: getSnippetVariables({
+      to: emailData.to,
+      from: fromAccount,
+      senderName: currentAccount?.displayName,
+      subject: emailData.subject
+    })
+  });
+
+  // Autosave runs on a timer, so it reads the latest form through refs
+  const draftFields: DraftFields = {
+    from: fromAccount,
+    to: emailData.to,
+    cc: emailData.cc,
+    bcc: emailData.bcc,
+    subject: emailData.subject,
+    body: emailData.body,
+    format: emailData.format,
+    priority: emailData.priority as DraftFields['priority']
+  };
+  const latestDraft = useRef({ id: draftId, fields: draftFields });
+  latestDraft.current = { id: draftId, fields: draftFields };
+  const savedSnapshot = useRef(JSON.stringify(draftFields));
+  const draftSave = useRef<Promise<void> | null>(null);
+
+  // Saves the form as a draft if it changed since the last save
+  const saveDraft = useCallback(async () => {
+    if (draftSave.current) await draftSave.current;
+    const { id, fields } = latestDraft.current;
+    const snapshot = JSON.stringify(fields);
+    // A body holding nothing but the signature does not make a draft
+    const body = fields.body === insertedSignature.current ? '' : fields.body;
+    const empty = !fields.to && !fields.cc && !fields.bcc && !fields.subject && !body;
+    if (snapshot === savedSnapshot.current || (empty && !id)) return;
+
+    draftSave.current = emailService.saveDraft(fields, id)
+      .then(draft => {
+        savedSnapshot.current = snapshot;
+        latestDraft.current.id = draft.id;
+        setDraftId(draft.id);
+        setDraftSavedAt(new Date(draft.updatedAt));
+        onDraftsChange?.();
+      })
+      .finally(() => {
+        draftSave.current = null;
+      });
+    await draftSave.current;
+  }, [onDraftsChange]);
+
+  const resetForm = () => {
+    setEmailData(EMPTY_EMAIL);
+    setAttachments([]);
+    setScheduleAt('');
+    setShowSchedule(false);
+    setShowAdvanced(false);
+    setDraftId(null);
+    setDraftSavedAt(null);
+    setPreview(null);
+    setShowSignatureEditor(false);
+    setShowSnippets(false);
+    insertedSignature.current = '';
+    latestDraft.current.id = null;
+    savedSnapshot.current = JSON.stringify({ ...latestDraft.current.fields, ...EMPTY_EMAIL });
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const timer = setInterval(() => {
+      saveDraft().catch(error => console.error('Draft autosave failed:', error));
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOpen, saveDraft]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    emailService.getAccounts()
+      .then(loaded => {
+        setAccounts(loaded);
+        // Without a selected account, send from the first configured one
+        setFromAccount(prev => prev || loaded[0]?.email || '');
+      })
+      .catch(error => console.error('Failed to load accounts:', error));
+    emailService.getSnippets()
+      .then(setSnippets)
+      .catch(error => console.error('Failed to load snippets:', error));
+  }, [isOpen]);
+
+  // New emails start with the sender's signature, which follows account and
+  // format changes as long as the user has not edited it
+  useEffect(() => {
+    if (!isOpen || insertedSignature.current === SIGNATURE_KEPT) return;
+    const previous = insertedSignature.current;
+    setEmailData(prev => ({ ...prev, body: replaceSignature(prev.body, previous, signatureBlock) }));
+    insertedSignature.current = signatureBlock;
+  }, [isOpen, signatureBlock]);
+
+  // Load a saved draft when the modal is opened for one
+  useEffect(() => {
+    if (!isOpen || !openDraftId || openDraftId === latestDraft.current.id) return;
+    emailService.getDraft(openDraftId)
+      .then(draft => {
+        const { id, from, priority, to, cc, bcc, subject, body, format = 'plain' } = draft;
+        setEmailData({ to, cc, bcc, subject, body, format, priority });
+        setFromAccount(from);
+        setShowAdvanced(!!(cc || bcc));
+        setDraftId(id);
+        setDraftSavedAt(new Date(draft.updatedAt));
+        insertedSignature.current = SIGNATURE_KEPT;
+        latestDraft.current.id = id;
+        savedSnapshot.current = JSON.stringify({ from, to, cc, bcc, subject, body, format, priority });
+      })
+      .catch(error => toast.error(error.message));
+  }, [isOpen, openDraftId]);
+
+  // Closing keeps the email as a draft and starts the next one empty
+  const handleClose = async () => {
+    onClose();
+    const hadAttachments = attachments.length > 0;
+    try {
+      await saveDraft();
+      if (latestDraft.current.id) {
+        toast.info(hadAttachments ? '💾 Draft saved (attachments are not kept in drafts)' : '💾 Draft saved');
+      }
+    } catch (error: any) {
+      toast.error(error.message);
+      return;
+    }
+    resetForm();
+  };
   
   // Update fromAccount when defaultAccount changes
   React.useEffect(() => {
-    if (defaultAccount && defaultAccount !== 'your.email@company.com') {
+    if (defaultAccount) {
       setFromAccount(defaultAccount);
-    } else if (availableAccounts.length > 0) {
-      setFromAccount(availableAccounts[0]);
     }
-  }, [defaultAccount, availableAccounts]);
+  }, [defaultAccount]);
 
   // Prevent body scroll when modal is open
   React.useEffect(() => {
@@ -55,6 +255,12 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
       return;
     }
 
+    const sendAt = scheduleAt ? new Date(scheduleAt) : null;
+    if (sendAt && sendAt.getTime() <= Date.now()) {
+      toast.error('Please pick a time in the future to schedule the email');
+      return;
+    }
+
     setSending(true);
     
     try {
@@ -65,15 +271,33 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
         bcc: emailData.bcc || undefined,
         subject: emailData.subject,
         body: emailData.body,
-        priority: emailData.priority as 'low' | 'normal' | 'high'
+        format: emailData.format,
+        priority: emailData.priority as 'low' | 'normal' | 'high',
+        attachments,
+        ...(sendAt ? { sendAt: sendAt.toISOString() } : {}),
+        ...(draftId ? { draftId } : {})
       };
       
-      const response = await emailService.sendEmail(emailPayload);
+      const response = await emailService.sendEmail(emailPayload, setUploadProgress);
       
       if (response.success) {
-        toast.success(`✅ Email sent successfully${emailData.priority === 'high' ? ' with high priority!' : '!'}`);
-        setEmailData({ to: '', cc: '', bcc: '', subject: '', body: '', priority: 'normal' });
-        setShowAdvanced(false);
+        const sent = { emailData, attachments, scheduleAt };
+        showDeliveryToast(
+          response,
+          `✅ Email sent successfully${emailData.priority === 'high' ? ' with high priority!' : '!'}`,
+          () => {
+            // Undo brings the email back for editing
+            setEmailData(sent.emailData);
+            setAttachments(sent.attachments);
+            setScheduleAt(sent.scheduleAt);
+            setShowSchedule(!!sent.scheduleAt);
+            insertedSignature.current = SIGNATURE_KEPT;
+            onReopen?.();
+          }
+        );
+        // The server discarded the draft along with the send
+        resetForm();
+        if (draftId) onDraftsChange?.();
         onClose();
       } else {
         throw new Error(response.error || 'Failed to send email');
@@ -83,13 +307,53 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
       toast.error(`❌ Failed to send email: ${error.message}`);
     } finally {
       setSending(false);
+      setUploadProgress(null);
+    }
+  };
+
+  // Files can be dropped anywhere on the form
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
     }
   };
 
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (sending) return;
+    setAttachments(current => addAttachments(current, Array.from(e.dataTransfer.files)));
+  };
+
   const handleInputChange = (field: string, value: string) => {
     setEmailData(prev => ({ ...prev, [field]: value }));
   };
 
+  // Shows the body as the server will render it, or goes back to editing
+  const handleTogglePreview = async () => {
+    if (preview !== null) {
+      setPreview(null);
+      return;
+    }
+    try {
+      const rendered = await emailService.previewBody(emailData.body, emailData.format);
+      setPreview(rendered.html);
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleFormatChange = (format: BodyFormat) => {
+    setEmailData(prev => ({ ...prev, format }));
+    setPreview(null);
+  };
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -99,7 +363,7 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
-            onClick={onClose}
+            onClick={handleClose}
             style={{
               position: 'fixed',
               top: 0,
@@ -162,7 +426,7 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
                 ✏️ Compose Email
               </h2>
               <motion.button 
-                onClick={onClose}
+                onClick={handleClose}
                 whileHover={{ scale: 1.1, rotate: 90 }}
                 whileTap={{ scale: 0.9 }}
                 style={{
@@ -183,20 +447,27 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
               </motion.button>
             </div>
 
-            <div style={{ 
-              flex: 1, 
-              overflow: 'auto',
-              padding: '0 24px',
-              backgroundColor: 'transparent',
-              filter: 'none',
-              maxHeight: 'calc(85vh - 180px)'
-            }}>
+            <div
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+              style={{ 
+                flex: 1, 
+                overflow: 'auto',
+                padding: '0 24px',
+                backgroundColor: isDragging ? 'var(--bg-secondary)' : 'transparent',
+                outline: isDragging ? '2px dashed var(--primary-color)' : 'none',
+                outlineOffset: '-8px',
+                filter: 'none',
+                maxHeight: 'calc(85vh - 180px)'
+              }}
+            >
               <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px', paddingTop: '20px' }}>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
                 <label style={{ color: 'var(--text-primary)', fontSize: '14px', fontWeight: '500' }}>
                   From
                 </label>
-                {availableAccounts.length > 1 ? (
+                {accounts.length > 1 ? (
                   <select
                     value={fromAccount}
                     onChange={(e) => setFromAccount(e.target.value)}
@@ -209,9 +480,12 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
                       fontSize: '14px'
                     }}
                   >
-                    {availableAccounts.map(account => (
-                      <option key={account} value={account}>
-                        {account}
+                    {!currentAccount && fromAccount && (
+                      <option value={fromAccount}>{fromAccount}</option>
+                    )}
+                    {accounts.map(account => (
+                      <option key={account.id} value={account.email}>
+                        {account.displayName ? `${account.displayName} <${account.email}>` : account.email}
                       </option>
                     ))}
                   </select>
@@ -378,7 +652,13 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
                   <div style={{ display: 'flex', gap: '8px' }}>
                     <motion.button
                       type="button"
-                      onClick={() => handleInputChange('body', emailData.body + '\n\nBest regards,\nYour Name')}
+                      onClick={() => {
+                        if (!currentAccount) {
+                          toast.info(`Add ${fromAccount} as an account to give it a signature`);
+                          return;
+                        }
+                        setShowSignatureEditor(!showSignatureEditor);
+                      }}
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
                       style={{
@@ -395,7 +675,7 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
                     </motion.button>
                     <motion.button
                       type="button"
-                      onClick={() => handleInputChange('body', 'Dear [Name],\n\nI hope this email finds you well.\n\n')}
+                      onClick={() => setShowSnippets(!showSnippets)}
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
                       style={{
@@ -408,28 +688,138 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
                         cursor: 'pointer'
                       }}
                     >
-                      📝 Template
+                      📋 Snippets
                     </motion.button>
                   </div>
                 </div>
-                <textarea
+                {showSignatureEditor && currentAccount && (
+                  <SignatureEditor
+                    account={currentAccount}
+                    onSaved={(signature) =>
+                      setAccounts(prev => prev.map(account => account.id === currentAccount.id ? { ...account, signature } : account))
+                    }
+                    onClose={() => setShowSignatureEditor(false)}
+                  />
+                )}
+                {showSnippets && (
+                  <SnippetManager snippets={snippets} onChange={setSnippets} onClose={() => setShowSnippets(false)} />
+                )}
+                <ComposeToolbar
+                  format={emailData.format}
+                  onFormatChange={handleFormatChange}
+                  textareaRef={bodyRef}
                   value={emailData.body}
-                  onChange={(e) => handleInputChange('body', e.target.value)}
-                  placeholder="Write your email message here...&#10;&#10;You can use the buttons above for quick templates!"
-                  rows={6}
-                  style={{
-                    padding: '12px 16px',
-                    border: '1px solid var(--border-color)',
-                    borderRadius: '8px',
-                    backgroundColor: 'var(--bg-secondary)',
-                    color: 'var(--text-primary)',
-                    fontSize: '14px',
-                    resize: 'vertical',
-                    minHeight: '120px',
-                    fontFamily: 'inherit'
-                  }}
+                  onChange={(value) => handleInputChange('body', value)}
+                  showPreview={preview !== null}
+                  onTogglePreview={handleTogglePreview}
                 />
+                {preview !== null ? (
+                  <div
+                    className="compose-preview"
+                    // Rendered and sanitized by the server
+                    dangerouslySetInnerHTML={{ __html: preview }}
+                    style={{
+                      padding: '12px 16px',
+                      border: '1px solid var(--border-color)',
+                      borderRadius: '8px',
+                      backgroundColor: 'white',
+                      color: '#222',
+                      fontSize: '14px',
+                      minHeight: '120px',
+                      overflowWrap: 'anywhere'
+                    }}
+                  />
+                ) : (
+                  <>
+                    <textarea
+                      ref={bodyRef}
+                      value={emailData.body}
+                      onChange={(e) => handleInputChange('body', e.target.value)}
+                      {...snippetMenu.textareaProps}
+                      placeholder={
+                        emailData.format === 'markdown'
+                          ? 'Write your message in Markdown: **bold**, _italic_, [links](https://), - lists'
+                          : emailData.format === 'html'
+                            ? 'Write your message as HTML, or use the toolbar above'
+                            : 'Write your email message here...\n\nType / to insert a snippet'
+                      }
+                      rows={6}
+                      style={{
+                        padding: '12px 16px',
+                        border: '1px solid var(--border-color)',
+                        borderRadius: '8px',
+                        backgroundColor: 'var(--bg-secondary)',
+                        color: 'var(--text-primary)',
+                        fontSize: '14px',
+                        resize: 'vertical',
+                        minHeight: '120px',
+                        fontFamily: emailData.format === 'plain' ? 'inherit' : 'monospace'
+                      }}
+                    />
+                    {snippetMenu.menu}
+                  </>
+                )}
               </div>
+
+              <ComposeAttachments files={attachments} onChange={setAttachments} disabled={sending} />
+
+              {showSchedule && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                  <label style={{ color: 'var(--text-primary)', fontSize: '14px', fontWeight: '500' }}>
+                    Send at
+                  </label>
+                  <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                    <input
+                      type="datetime-local"
+                      value={scheduleAt}
+                      min={toLocalInputValue(new Date())}
+                      onChange={(e) => setScheduleAt(e.target.value)}
+                      style={{
+                        padding: '8px 12px',
+                        border: '1px solid var(--border-color)',
+                        borderRadius: '8px',
+                        backgroundColor: 'var(--bg-secondary)',
+                        color: 'var(--text-primary)',
+                        fontSize: '14px'
+                      }}
+                    />
+                    {getSchedulePresets().map(preset => (
+                      <button
+                        key={preset.label}
+                        type="button"
+                        onClick={() => setScheduleAt(preset.value)}
+                        style={{
+                          padding: '4px 8px',
+                          fontSize: '12px',
+                          border: '1px solid var(--border-color)',
+                          borderRadius: '4px',
+                          backgroundColor: 'var(--bg-secondary)',
+                          color: 'var(--text-secondary)',
+                          cursor: 'pointer'
+                        }}
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                    {scheduleAt && (
+                      <button
+                        type="button"
+                        onClick={() => setScheduleAt('')}
+                        style={{
+                          background: 'none',
+                          border: 'none',
+                          color: 'var(--text-secondary)',
+                          fontSize: '12px',
+                          cursor: 'pointer',
+                          textDecoration: 'underline'
+                        }}
+                      >
+                        Send now instead
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
               </form>
             </div>
             
@@ -446,12 +836,30 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
               minHeight: '80px',
               alignItems: 'center'
             }}>
+              {uploadProgress !== null && (
+                <div
+                  role="progressbar"
+                  aria-valuenow={uploadProgress}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  style={{
+                    position: 'absolute',
+                    top: 0,
+                    left: 0,
+                    height: '3px',
+                    width: `${uploadProgress}%`,
+                    backgroundColor: '#28a745',
+                    transition: 'width 0.2s ease'
+                  }}
+                />
+              )}
               <div style={{ display: 'flex', gap: '12px' }}>
                 <button
                   type="button"
                   onClick={() => {
-                    toast.info('Draft saved!');
-                    // In real app, save to drafts folder
+                    saveDraft()
+                      .then(() => toast.info('Draft saved!'))
+                      .catch(error => toast.error(error.message));
                   }}
                   style={{
                     padding: '10px 20px',
@@ -465,6 +873,27 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
                 >
                   💾 Save Draft
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setShowSchedule(!showSchedule)}
+                  title="Send later"
+                  style={{
+                    padding: '10px 14px',
+                    border: '1px solid #ccc',
+                    borderRadius: '6px',
+                    backgroundColor: scheduleAt ? '#e8f0fe' : '#f8f9fa',
+                    color: '#666',
+                    cursor: 'pointer',
+                    fontSize: '14px'
+                  }}
+                >
+                  🕒 {scheduleAt ? 'Scheduled' : 'Schedule'}
+                </button>
+                {draftSavedAt && (
+                  <span style={{ alignSelf: 'center', color: 'var(--text-secondary)', fontSize: '12px' }}>
+                    Saved {draftSavedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                )}
               </div>
               
               <div style={{ 
@@ -475,7 +904,7 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
               }}>
                 <button
                   type="button"
-                  onClick={onClose}
+                  onClick={handleClose}
                   style={{
                     padding: '10px 20px',
                     border: '1px solid #ccc',
@@ -530,11 +959,13 @@ const ComposeModal: React.FC<ComposeModalProps> = ({ isOpen, onClose, defaultAcc
                         animation: 'spin 1s linear infinite',
                         display: 'inline-block'
                       }}></span>
-                      SENDING...
+                      {uploadProgress !== null && uploadProgress < 100
+                        ? `UPLOADING ${uploadProgress}%`
+                        : 'SENDING...'}
                     </>
                   ) : (
                     <>
-                      {emailData.priority === 'high' ? '⚡' : '📤'} SEND EMAIL
+                      {scheduleAt ? '🕒 SCHEDULE' : <>{emailData.priority === 'high' ? '⚡' : '📤'} SEND EMAIL</>}
                     </>
                   )}
                 </button>
@@ -0,0 +1,194 @@
+import React from 'react';
+import { BodyFormat } from '../services/api';
+
+interface ComposeToolbarProps {
+  format: BodyFormat;
+  onFormatChange: (format: BodyFormat) => void;
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  value: string;
+  onChange: (value: string) => void;
+  showPreview: boolean;
+  onTogglePreview: () => void;
+}
+
+// Wraps the selection (`wrap`) or prefixes each selected line (`line`)
+type Formatting =
+  | { kind: 'wrap'; before: string; after: string; placeholder: string }
+  | { kind: 'line'; prefix: (index: number) => string; suffix?: string; wrapBefore?: string; wrapAfter?: string };
+
+interface ToolbarAction {
+  label: string;
+  title: string;
+  markdown: Formatting;
+  html: Formatting;
+}
+
+const ACTIONS: ToolbarAction[] = [
+  {
+    label: 'B',
+    title: 'Bold',
+    markdown: { kind: 'wrap', before: '**', after: '**', placeholder: 'bold text' },
+    html: { kind: 'wrap', before: '<strong>', after: '</strong>', placeholder: 'bold text' }
+  },
+  {
+    label: 'I',
+    title: 'Italic',
+    markdown: { kind: 'wrap', before: '_', after: '_', placeholder: 'italic text' },
+    html: { kind: 'wrap', before: '<em>', after: '</em>', placeholder: 'italic text' }
+  },
+  {
+    label: 'H',
+    title: 'Heading',
+    markdown: { kind: 'line', prefix: () => '## ' },
+    html: { kind: 'wrap', before: '<h2>', after: '</h2>', placeholder: 'Heading' }
+  },
+  {
+    label: '🔗',
+    title: 'Link',
+    markdown: { kind: 'wrap', before: '[', after: '](https://)', placeholder: 'link text' },
+    html: { kind: 'wrap', before: '<a href="https://">', after: '</a>', placeholder: 'link text' }
+  },
+  {
+    label: '•',
+    title: 'Bulleted list',
+    markdown: { kind: 'line', prefix: () => '- ' },
+    html: { kind: 'line', prefix: () => '  <li>', suffix: '</li>', wrapBefore: '<ul>\n', wrapAfter: '\n</ul>' }
+  },
+  {
+    label: '1.',
+    title: 'Numbered list',
+    markdown: { kind: 'line', prefix: index => `${index + 1}. ` },
+    html: { kind: 'line', prefix: () => '  <li>', suffix: '</li>', wrapBefore: '<ol>\n', wrapAfter: '\n</ol>' }
+  },
+  {
+    label: '❝',
+    title: 'Quote',
+    markdown: { kind: 'line', prefix: () => '> ' },
+    html: { kind: 'wrap', before: '<blockquote>', after: '</blockquote>', placeholder: 'quote' }
+  },
+  {
+    label: '</>',
+    title: 'Code',
+    markdown: { kind: 'wrap', before: '`', after: '`', placeholder: 'code' },
+    html: { kind: 'wrap', before: '<code>', after: '</code>', placeholder: 'code' }
+  }
+];
+
+const FORMAT_LABELS: Record<BodyFormat, string> = {
+  plain: 'Plain text',
+  markdown: 'Markdown',
+  html: 'HTML'
+};
+
+// Applies a formatting to the selection of `value`.
+// Returns the new value and the range to select afterwards.
+const applyFormatting = (value: string, start: number, end: number, formatting: Formatting) => {
+  const selected = value.slice(start, end);
+
+  if (formatting.kind === 'wrap') {
+    const text = selected || formatting.placeholder;
+    const inserted = formatting.before + text + formatting.after;
+    const selectFrom = start + formatting.before.length;
+    return {
+      value: value.slice(0, start) + inserted + value.slice(end),
+      selection: [selectFrom, selectFrom + text.length] as const
+    };
+  }
+
+  // Line formatting covers every line the selection touches
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const lineEndIndex = value.indexOf('\n', end);
+  const lineEnd = lineEndIndex === -1 ? value.length : lineEndIndex;
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+  const body = lines.map((line, index) => formatting.prefix(index) + line + (formatting.suffix || '')).join('\n');
+  const inserted = (formatting.wrapBefore || '') + body + (formatting.wrapAfter || '');
+  return {
+    value: value.slice(0, lineStart) + inserted + value.slice(lineEnd),
+    selection: [lineStart, lineStart + inserted.length] as const
+  };
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  minWidth: '28px',
+  fontSize: '12px',
+  border: '1px solid var(--border-color)',
+  borderRadius: '4px',
+  backgroundColor: 'var(--bg-secondary)',
+  color: 'var(--text-secondary)',
+  cursor: 'pointer'
+};
+
+// Format picker and formatting buttons above the message body
+const ComposeToolbar: React.FC<ComposeToolbarProps> = ({
+  format,
+  onFormatChange,
+  textareaRef,
+  value,
+  onChange,
+  showPreview,
+  onTogglePreview
+}) => {
+  const handleAction = (action: ToolbarAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea || format === 'plain') return;
+
+    const result = applyFormatting(value, textarea.selectionStart, textarea.selectionEnd, action[format]);
+    onChange(result.value);
+    // Restore the selection once React has rendered the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.selection[0], result.selection[1]);
+    });
+  };
+
+  return (
+    <div style={{ display: 'flex', gap: '4px', alignItems: 'center', flexWrap: 'wrap' }}>
+      <select
+        value={format}
+        onChange={e => onFormatChange(e.target.value as BodyFormat)}
+        title="Message format"
+        style={{ ...buttonStyle, padding: '4px 6px' }}
+      >
+        {(Object.keys(FORMAT_LABELS) as BodyFormat[]).map(option => (
+          <option key={option} value={option}>
+            {FORMAT_LABELS[option]}
+          </option>
+        ))}
+      </select>
+      {format !== 'plain' && (
+        <>
+          {ACTIONS.map(action => (
+            <button
+              key={action.title}
+              type="button"
+              title={action.title}
+              disabled={showPreview}
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => handleAction(action)}
+              style={{
+                ...buttonStyle,
+                fontWeight: action.label === 'B' ? 'bold' : 'normal',
+                fontStyle: action.label === 'I' ? 'italic' : 'normal'
+              }}
+            >
+              {action.label}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={onTogglePreview}
+            style={{
+              ...buttonStyle,
+              backgroundColor: showPreview ? '#e8f0fe' : 'var(--bg-secondary)'
+            }}
+          >
+            {showPreview ? '✏️ Edit' : '👁️ Preview'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComposeToolbar;
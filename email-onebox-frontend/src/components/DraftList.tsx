@@ -0,0 +1,85 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Draft } from '../services/api';
+
+interface DraftListProps {
+  drafts: Draft[];
+  onOpen: (draft: Draft) => void;
+  onDelete: (draft: Draft) => void;
+}
+
+// Drafts saved on the server, shown above the Drafts folder's synced emails
+const DraftList: React.FC<DraftListProps> = ({ drafts, onOpen, onDelete }) => {
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const truncateText = (text: string, maxLength: number) => {
+    if (text.length <= maxLength) return text;
+    return text.substring(0, maxLength) + '...';
+  };
+
+  if (drafts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="email-list">
+      {drafts.map(draft => (
+        <motion.div
+          key={draft.id}
+          className="email-item read"
+          onClick={() => onOpen(draft)}
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          whileHover={{ scale: 1.02, transition: { duration: 0.2 } }}
+          whileTap={{ scale: 0.98 }}
+        >
+          <div className="email-content">
+            <div className="email-header">
+              <div className="email-from">
+                <div className="from-info">
+                  <strong style={{ color: '#dc3545' }}>Draft</strong>
+                  <span style={{ color: 'var(--text-secondary)' }}>
+                    {draft.to ? `To: ${truncateText(draft.to, 40)}` : 'No recipients'}
+                  </span>
+                </div>
+                <div className="email-meta">
+                  <span className="email-time">🕕 {formatDate(draft.updatedAt)}</span>
+                  <button
+                    type="button"
+                    title="Discard draft"
+                    onClick={e => {
+                      e.stopPropagation();
+                      onDelete(draft);
+                    }}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      cursor: 'pointer',
+                      color: 'var(--text-secondary)',
+                      padding: 0
+                    }}
+                  >
+                    🗑️
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="email-subject">{truncateText(draft.subject || 'No Subject', 60)}</div>
+
+            <div className="email-preview">{truncateText(draft.body, 100)}</div>
+
+            <div className="email-footer">
+              <span className="email-account">{draft.from}</span>
+            </div>
+          </div>
+        </motion.div>
+      ))}
+    </div>
+  );
+};
+
+export default DraftList;
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { splitQuotedText } from '../utils/quoteUtils';
+
+interface EmailBodyProps {
+  body: string;
+}
+
+interface Paragraph {
+  id: number;
+  content: string;
+  isCode: boolean;
+  isQuote: boolean;
+  originalText: string;
+}
+
+// Enhanced email content processing
+const processContent = (body: string): Paragraph[] => {
+  if (!body) return [];
+
+  let content = body;
+
+  // Remove HTML tags but preserve structure
+  content = content.replace(/<br\s*\/?>/gi, '\n');
+  content = content.replace(/<\/p>/gi, '\n\n');
+  content = content.replace(/<p[^>]*>/gi, '');
+  content = content.replace(/<[^>]+>/g, '');
+
+  // Decode HTML entities
+  content = content.replace(/&nbsp;/g, ' ');
+  content = content.replace(/&amp;/g, '&');
+  content = content.replace(/&lt;/g, '<');
+  content = content.replace(/&gt;/g, '>');
+  content = content.replace(/&quot;/g, '"');
+  content = content.replace(/&#39;/g, "'");
+
+  // Split into paragraphs
+  const paragraphs = content.split('\n\n').filter(p => p.trim());
+
+  return paragraphs.map((paragraph, index) => {
+    const trimmed = paragraph.trim();
+    if (!trimmed) return null;
+
+    // Detect if paragraph contains code (simple heuristic)
+    const isCode = /^[\s]*[{<]|function\s|class\s|import\s|export\s|const\s|let\s|var\s|if\s*\(|for\s*\(|while\s*\(/.test(trimmed) ||
+                  (trimmed.includes('```') || trimmed.includes('```') ||
+                  (trimmed.split('\n').length > 3 && trimmed.includes(';') && trimmed.includes('{')));
+
+    // Detect if paragraph is a quote
+    const isQuote = trimmed.startsWith('>') || (trimmed.startsWith('On ') && trimmed.includes(' wrote:'));
+
+    // Detect links
+    const linkRegex = /(https?:\/\/[^\s]+)/g;
+    const emailRegex = /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g;
+
+    let processedParagraph = trimmed;
+
+    // Convert URLs to clickable links
+    processedParagraph = processedParagraph.replace(linkRegex, '<a href="$1" target="_blank" rel="noopener noreferrer">$1</a>');
+
+    // Convert email addresses to clickable links
+    processedParagraph = processedParagraph.replace(emailRegex, '<a href="mailto:$1">$1</a>');
+
+    return {
+      id: index,
+      content: processedParagraph,
+      isCode,
+      isQuote,
+      originalText: trimmed
+    };
+  }).filter((p): p is NonNullable<typeof p> => p !== null);
+};
+
+const renderParagraph = (paragraph: Paragraph) => {
+  if (paragraph.isCode) {
+    return (
+      <motion.pre
+        key={paragraph.id}
+        className="email-code-block"
+        initial={{ opacity: 0, x: -10 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: paragraph.id * 0.1 }}
+      >
+        <code>{paragraph.originalText}</code>
+      </motion.pre>
+    );
+  } else if (paragraph.isQuote) {
+    return (
+      <motion.blockquote
+        key={paragraph.id}
+        className="email-quote"
+        initial={{ opacity: 0, x: -10 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: paragraph.id * 0.1 }}
+        dangerouslySetInnerHTML={{ __html: paragraph.content }}
+      />
+    );
+  } else {
+    return (
+      <motion.p
+        key={paragraph.id}
+        className="email-paragraph"
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: paragraph.id * 0.1 }}
+        dangerouslySetInnerHTML={{ __html: paragraph.content }}
+      />
+    );
+  }
+};
+
+// Renders an email body with the quoted history folded away behind a toggle
+const EmailBody: React.FC<EmailBodyProps> = ({ body }) => {
+  const [showQuoted, setShowQuoted] = useState(false);
+  const { visible, quoted } = useMemo(() => splitQuotedText(body || ''), [body]);
+  const visibleContent = useMemo(() => processContent(visible), [visible]);
+  const quotedContent = useMemo(() => processContent(quoted), [quoted]);
+
+  if (visibleContent.length === 0) {
+    return (
+      <div className="email-no-content">
+        <p>📭 No content available</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="email-body-content">
+      {visibleContent.map(renderParagraph)}
+      {quotedContent.length > 0 && (
+        <>
+          <button
+            className="quoted-text-toggle"
+            onClick={() => setShowQuoted(!showQuoted)}
+            title={showQuoted ? 'Hide quoted text' : 'Show quoted text'}
+          >
+            •••
+          </button>
+          {showQuoted && (
+            <div className="quoted-text">
+              {quotedContent.map(renderParagraph)}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default EmailBody;
@@ -1,21 +1,55 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { toast } from 'react-toastify';
-import { Email } from '../services/api';
+import { Account, Email, emailService, MailboxAction, ReplyDraft, ReplyMode, Snippet } from '../services/api';
+import AttachmentList from './AttachmentList';
+import EmailBody from './EmailBody';
 import ReplySuggestions from './ReplySuggestions';
+import { useSnippetMenu } from './SnippetMenu';
 import ReadingTime from './ReadingTime';
 import ScrollProgress from './ScrollProgress';
+import ThreadMessage from './ThreadMessage';
 import { getSenderColorTheme, getSenderAvatarColor, getSenderInitials, getProviderColor } from '../utils/colorUtils';
+import { getFolderRole } from '../utils/folderUtils';
+import { renderHighlight } from '../utils/highlightUtils';
+import { showDeliveryToast } from '../utils/outboxUtils';
+import { formatSignature } from '../utils/signatureUtils';
+import { getSnippetVariables } from '../utils/snippetUtils';
 
 interface EmailDetailProps {
   email: Email | null;
+  onMailboxAction?: (email: Email, action: MailboxAction) => void;
 }
 
-const EmailDetail: React.FC<EmailDetailProps> = ({ email }) => {
+const EmailDetail: React.FC<EmailDetailProps> = ({ email, onMailboxAction }) => {
   const [showReplySuggestions, setShowReplySuggestions] = useState(false);
   const [replyText, setReplyText] = useState('');
   const [showReplyComposer, setShowReplyComposer] = useState(false);
+  const [replyDraft, setReplyDraft] = useState<ReplyDraft | null>(null);
+  const [isSendingReply, setIsSendingReply] = useState(false);
+  const [thread, setThread] = useState<Email[]>([]);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [showAllMessages, setShowAllMessages] = useState(false);
   const emailBodyRef = React.useRef<HTMLDivElement>(null);
+  const replyTextRef = React.useRef<HTMLTextAreaElement>(null);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+
+  const replyAccount = replyDraft
+    ? accounts.find(account => account.email.toLowerCase() === replyDraft.from.toLowerCase())
+    : undefined;
+  const snippetMenu = useSnippetMenu({
+    textareaRef: replyTextRef,
+    value: replyText,
+    onChange: setReplyText,
+    snippets,
+    variables: getSnippetVariables({
+      to: replyDraft?.to || '',
+      from: replyDraft?.from || '',
+      senderName: replyAccount?.displayName,
+      subject: replyDraft?.subject
+    })
+  });
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -29,62 +63,48 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ email }) => {
     });
   };
 
-  // Enhanced email content processing
-  const processedEmailContent = useMemo(() => {
-    if (!email?._source?.body) return [];
-    
-    let content = email._source.body;
-    
-    // Remove HTML tags but preserve structure
-    content = content.replace(/<br\s*\/?>/gi, '\n');
-    content = content.replace(/<\/p>/gi, '\n\n');
-    content = content.replace(/<p[^>]*>/gi, '');
-    content = content.replace(/<[^>]+>/g, '');
-    
-    // Decode HTML entities
-    content = content.replace(/&nbsp;/g, ' ');
-    content = content.replace(/&amp;/g, '&');
-    content = content.replace(/&lt;/g, '<');
-    content = content.replace(/&gt;/g, '>');
-    content = content.replace(/&quot;/g, '"');
-    content = content.replace(/&#39;/g, "'");
-    
-    // Split into paragraphs
-    const paragraphs = content.split('\n\n').filter(p => p.trim());
-    
-    return paragraphs.map((paragraph, index) => {
-      const trimmed = paragraph.trim();
-      if (!trimmed) return null;
-      
-      // Detect if paragraph contains code (simple heuristic)
-      const isCode = /^[\s]*[{<]|function\s|class\s|import\s|export\s|const\s|let\s|var\s|if\s*\(|for\s*\(|while\s*\(/.test(trimmed) ||
-                    (trimmed.includes('```') || trimmed.includes('```') ||
-                    (trimmed.split('\n').length > 3 && trimmed.includes(';') && trimmed.includes('{')));
-      
-      // Detect if paragraph is a quote
-      const isQuote = trimmed.startsWith('>') || (trimmed.startsWith('On ') && trimmed.includes(' wrote:'));
-      
-      // Detect links
-      const linkRegex = /(https?:\/\/[^\s]+)/g;
-      const emailRegex = /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g;
-      
-      let processedParagraph = trimmed;
-      
-      // Convert URLs to clickable links
-      processedParagraph = processedParagraph.replace(linkRegex, '<a href="$1" target="_blank" rel="noopener noreferrer">$1</a>');
-      
-      // Convert email addresses to clickable links
-      processedParagraph = processedParagraph.replace(emailRegex, '<a href="mailto:$1">$1</a>');
-      
-      return {
-        id: index,
-        content: processedParagraph,
-        isCode,
-        isQuote,
-        originalText: trimmed
-      };
-    }).filter((p): p is NonNullable<typeof p> => p !== null);
-  }, [email?._source?.body]);
+  // Signatures and snippets for the reply composer
+  useEffect(() => {
+    emailService.getAccounts()
+      .then(setAccounts)
+      .catch(error => console.error('Failed to load accounts:', error));
+    emailService.getSnippets()
+      .then(setSnippets)
+      .catch(error => console.error('Failed to load snippets:', error));
+  }, []);
+
+  // Load the whole conversation the selected email belongs to
+  const emailId = email?._id;
+  const threadId = email?._source?.threadId;
+  useEffect(() => {
+    setThread([]);
+    setShowAllMessages(false);
+    // A draft belongs to the email it was opened for
+    setReplyDraft(null);
+    setShowReplyComposer(false);
+    if (!emailId || !threadId) return;
+
+    let cancelled = false;
+    emailService.getThread(threadId)
+      .then(({ emails }) => {
+        if (cancelled) return;
+        // The selected message, the latest one and anything unread start expanded
+        const latest = emails[emails.length - 1];
+        setExpandedIds(new Set([
+          emailId,
+          ...(latest ? [latest._id] : []),
+          ...emails.filter(message => message._source?.isRead === false).map(message => message._id)
+        ]));
+        setThread(emails);
+      })
+      .catch(error => {
+        console.error('Error loading conversation:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [emailId, threadId]);
 
   if (!email) {
     return (
@@ -105,29 +125,152 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ email }) => {
     setShowReplySuggestions(false);
   };
 
+  // The sender's signature goes between the reply and the quoted message
+  const getReplyBody = (draft: ReplyDraft, intro: string) => {
+    const account = accounts.find(a => a.email.toLowerCase() === draft.from.toLowerCase());
+    return intro + formatSignature(account?.signature, 'plain') + draft.body;
+  };
+
+  // Opens the composer with recipients, subject and quoted text pre-filled
+  // by the backend. Replies always go to the latest message of a thread.
+  const openComposer = async (mode: ReplyMode, intro: string = '') => {
+    try {
+      const draft = await emailService.getReplyDraft(replyTarget._id, mode);
+      setReplyDraft(draft);
+      setReplyText(getReplyBody(draft, intro));
+      setShowReplyComposer(true);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to prepare reply');
+    }
+  };
+
   const handleReplySelect = (selectedReply: string) => {
-    setReplyText(selectedReply);
-    setShowReplyComposer(true);
+    if (replyDraft && showReplyComposer) {
+      setReplyText(getReplyBody(replyDraft, selectedReply));
+    } else {
+      openComposer('reply', selectedReply);
+    }
   };
 
-  const handleSendReply = () => {
-    // In a real implementation, this would send the email
-    toast.success('Reply sent successfully! (Demo mode)');
-    setReplyText('');
-    setShowReplyComposer(false);
+  const handleSendReply = async () => {
+    if (!replyDraft) return;
+    if (!replyDraft.to.trim()) {
+      toast.error('Please add at least one recipient');
+      return;
+    }
+
+    setIsSendingReply(true);
+    try {
+      const response = await emailService.sendReply(replyTarget._id, replyDraft.mode, {
+        to: replyDraft.to,
+        cc: replyDraft.cc,
+        subject: replyDraft.subject,
+        body: replyText
+      });
+      const sentDraft = replyDraft;
+      const sentText = replyText;
+      showDeliveryToast(response, replyDraft.mode === 'forward' ? 'Email forwarded!' : 'Reply sent!', () => {
+        // Undo puts the reply back into the composer
+        setReplyDraft(sentDraft);
+        setReplyText(sentText);
+        setShowReplyComposer(true);
+      });
+      setReplyText('');
+      setReplyDraft(null);
+      setShowReplyComposer(false);
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to send reply');
+    } finally {
+      setIsSendingReply(false);
+    }
+  };
+
+  const updateReplyDraft = (changes: Partial<ReplyDraft>) => {
+    if (replyDraft) {
+      setReplyDraft({ ...replyDraft, ...changes });
+    }
+  };
+
+  const toggleExpanded = (emailId: string) => {
+    const next = new Set(expandedIds);
+    if (next.has(emailId)) {
+      next.delete(emailId);
+    } else {
+      next.add(emailId);
+    }
+    setExpandedIds(next);
+  };
+
+  // Conversations of two or more messages are shown as a thread, and replies
+  // always go to the latest message
+  const conversation = thread.length > 1 ? thread : null;
+  const replyTarget = conversation ? conversation[conversation.length - 1] : email;
+
+  // Long runs of collapsed messages between the first and the last two are
+  // folded into a single "older messages" row
+  const renderConversation = (messages: Email[]) => {
+    const renderMessage = (message: Email) => (
+      <ThreadMessage
+        key={message._id}
+        email={message}
+        expanded={expandedIds.has(message._id)}
+        onToggle={() => toggleExpanded(message._id)}
+      />
+    );
+
+    const middle = messages.slice(1, -2);
+    const hiddenCount = middle.filter(message => !expandedIds.has(message._id)).length;
+    if (showAllMessages || hiddenCount < 2) {
+      return messages.map(renderMessage);
+    }
+
+    return (
+      <>
+        {renderMessage(messages[0])}
+        <button className="thread-older-toggle" onClick={() => setShowAllMessages(true)}>
+          {hiddenCount} older messages
+        </button>
+        {middle.filter(message => expandedIds.has(message._id)).map(renderMessage)}
+        {messages.slice(-2).map(renderMessage)}
+      </>
+    );
+  };
+
+  const folderRole = getFolderRole(email);
+  const mailboxButtonStyle = {
+    background: 'white',
+    color: '#374151',
+    border: '1px solid #d1d5db',
+    padding: '0.5rem 1rem',
+    borderRadius: '6px',
+    cursor: 'pointer',
+    fontSize: '0.9rem',
+    fontWeight: '600'
   };
 
   const senderTheme = getSenderColorTheme(email._source?.from || '');
   const accountColor = getProviderColor(email._source?.account || '');
   const initials = getSenderInitials(email._source?.from || '');
+  // What the current search matched in this email, in its body or attachments
+  const matches = [
+    ...(email.highlight?.text || []).map(fragment => ({ fragment, inAttachment: false })),
+    ...(email.highlight?.attachmentText || []).map(fragment => ({ fragment, inAttachment: true }))
+  ];
 
   return (
     <div className="email-detail">
       <ScrollProgress target={emailBodyRef as React.RefObject<HTMLElement>} />
       <div className="email-detail-header" style={{ borderTopColor: senderTheme.primary, borderTopWidth: '4px', borderTopStyle: 'solid' }}>
         <div className="email-subject-header">
-          <h2 className="email-detail-subject" style={{ color: senderTheme.text }}>{email._source?.subject || 'No Subject'}</h2>
+          <h2 className="email-detail-subject" style={{ color: senderTheme.text }}>
+            {email.highlight?.subject ? renderHighlight(email.highlight.subject[0]) : email._source?.subject || 'No Subject'}
+          </h2>
           <ReadingTime text={email._source?.body || ''} className="email-reading-time" />
+          {conversation && (
+            <span className="thread-count" title="Messages in this conversation">
+              {conversation.length} messages
+            </span>
+          )}
         </div>
         <div className="email-detail-meta">
           <div className="email-detail-from">
@@ -179,6 +322,25 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ email }) => {
               </span>
             </div>
           )}
+          {email._source?.hasAttachments && (
+            <div className="email-detail-attachments">
+              <strong>Attachments:</strong>
+              <AttachmentList email={email} />
+            </div>
+          )}
+          {matches.length > 0 && (
+            <div className="search-matches">
+              <strong>🔍 Matches your search:</strong>
+              <ul>
+                {matches.map(({ fragment, inAttachment }, index) => (
+                  <li key={index}>
+                    {inAttachment && <span title="Found in an attachment">📎 </span>}
+                    …{renderHighlight(fragment)}…
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
         
         <div className="email-actions" style={{ marginTop: '1rem', display: 'flex', gap: '0.5rem' }}>
@@ -204,7 +366,7 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ email }) => {
           </motion.button>
           
           <motion.button
-            onClick={() => setShowReplyComposer(!showReplyComposer)}
+            onClick={() => openComposer('reply')}
             style={{
               background: '#10b981',
               color: 'white',
@@ -220,55 +382,65 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ email }) => {
           >
             ✍️ Reply
           </motion.button>
+
+          <motion.button
+            onClick={() => openComposer('replyAll')}
+            style={mailboxButtonStyle}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            ↩️ Reply All
+          </motion.button>
+
+          <motion.button
+            onClick={() => openComposer('forward')}
+            style={mailboxButtonStyle}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            ➡️ Forward
+          </motion.button>
+
+          {onMailboxAction && (folderRole === 'trash' || folderRole === 'archive') ? (
+            <motion.button
+              onClick={() => onMailboxAction(email, 'restore')}
+              style={mailboxButtonStyle}
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              ↩️ Restore
+            </motion.button>
+          ) : onMailboxAction && (
+            <>
+              <motion.button
+                onClick={() => onMailboxAction(email, 'archive')}
+                style={mailboxButtonStyle}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                🗄️ Archive
+              </motion.button>
+              <motion.button
+                onClick={() => onMailboxAction(email, 'trash')}
+                style={{ ...mailboxButtonStyle, color: '#dc2626', borderColor: '#fca5a5' }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                🗑️ Trash
+              </motion.button>
+            </>
+          )}
         </div>
       </div>
       
       <div className="email-detail-body" ref={emailBodyRef}>
-        <div className="email-body-content">
-          {processedEmailContent.length > 0 ? (
-            processedEmailContent.map((paragraph) => {
-              if (paragraph.isCode) {
-                return (
-                  <motion.pre
-                    key={paragraph.id}
-                    className="email-code-block"
-                    initial={{ opacity: 0, x: -10 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    transition={{ delay: paragraph.id * 0.1 }}
-                  >
-                    <code>{paragraph.originalText}</code>
-                  </motion.pre>
-                );
-              } else if (paragraph.isQuote) {
-                return (
-                  <motion.blockquote
-                    key={paragraph.id}
-                    className="email-quote"
-                    initial={{ opacity: 0, x: -10 }}
-                    animate={{ opacity: 1, x: 0 }}
-                    transition={{ delay: paragraph.id * 0.1 }}
-                    dangerouslySetInnerHTML={{ __html: paragraph.content }}
-                  />
-                );
-              } else {
-                return (
-                  <motion.p
-                    key={paragraph.id}
-                    className="email-paragraph"
-                    initial={{ opacity: 0, y: 10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: paragraph.id * 0.1 }}
-                    dangerouslySetInnerHTML={{ __html: paragraph.content }}
-                  />
-                );
-              }
-            })
-          ) : (
-            <div className="email-no-content">
-              <p>📭 No content available</p>
-            </div>
-          )}
-        </div>
+        {conversation ? (
+          <div className="thread-messages">
+            {renderConversation(conversation)}
+          </div>
+        ) : (
+          <EmailBody body={email._source?.body || ''} />
+        )}
       </div>
       
       {showReplyComposer && (
@@ -283,11 +455,42 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ email }) => {
             background: '#f9fafb'
           }}
         >
-          <h3 style={{ margin: '0 0 1rem 0', fontSize: '1.1rem' }}>✍️ Reply</h3>
+          <h3 style={{ margin: '0 0 1rem 0', fontSize: '1.1rem' }}>
+            {replyDraft?.mode === 'forward' ? '➡️ Forward' : replyDraft?.mode === 'replyAll' ? '↩️ Reply All' : '✍️ Reply'}
+            {conversation && replyDraft?.mode !== 'forward' ? ` to ${replyTarget._source?.from?.split('<')[0]?.trim() || 'latest message'}` : ''}
+          </h3>
+          {replyDraft && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem', marginBottom: '0.75rem' }}>
+              {([
+                ['to', 'To'],
+                ['cc', 'Cc'],
+                ['subject', 'Subject']
+              ] as const).map(([field, label]) => (
+                <label key={field} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.85rem' }}>
+                  <span style={{ width: '60px', color: '#6b7280' }}>{label}</span>
+                  <input
+                    type="text"
+                    value={replyDraft[field]}
+                    onChange={(e) => updateReplyDraft({ [field]: e.target.value })}
+                    style={{
+                      flex: 1,
+                      padding: '0.4rem 0.6rem',
+                      border: '1px solid #d1d5db',
+                      borderRadius: '6px',
+                      fontSize: '0.85rem',
+                      fontFamily: 'inherit'
+                    }}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
           <textarea
+            ref={replyTextRef}
             value={replyText}
             onChange={(e) => setReplyText(e.target.value)}
-            placeholder="Type your reply here..."
+            {...snippetMenu.textareaProps}
+            placeholder="Type your reply here, or / for a snippet..."
             style={{
               width: '100%',
               height: '150px',
@@ -299,6 +502,7 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ email }) => {
               fontFamily: 'inherit'
             }}
           />
+          {snippetMenu.menu}
           <div style={{ marginTop: '1rem', display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
             <motion.button
               onClick={handleOpenReplySuggestions}
@@ -334,6 +538,7 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ email }) => {
             </motion.button>
             <motion.button
               onClick={handleSendReply}
+              disabled={isSendingReply}
               style={{
                 background: '#10b981',
                 color: 'white',
@@ -347,14 +552,14 @@ const EmailDetail: React.FC<EmailDetailProps> = ({ email }) => {
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
             >
-              📤 Send Reply
+              {isSendingReply ? '⏳ Sending...' : replyDraft?.mode === 'forward' ? '📤 Send' : '📤 Send Reply'}
             </motion.button>
           </div>
         </motion.div>
       )}
       
       <ReplySuggestions
-        email={email}
+        email={replyTarget}
         isOpen={showReplySuggestions}
         onClose={handleCloseSuggestions}
         onReplySelect={handleReplySelect}
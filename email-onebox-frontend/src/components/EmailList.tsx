@@ -1,15 +1,56 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { Email } from '../services/api';
 import { getSenderColorTheme, getSenderAvatarColor, getSenderInitials, getProviderColor } from '../utils/colorUtils';
+import { renderHighlight } from '../utils/highlightUtils';
 
 interface EmailListProps {
   emails: Email[];
   onEmailSelect: (email: Email) => void;
+  onToggleStar?: (email: Email) => void;
   selectedEmailId?: string;
+  // More pages can be loaded; onLoadMore is called when the end scrolls into view
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
-const EmailList: React.FC<EmailListProps> = ({ emails, onEmailSelect, selectedEmailId }) => {
+// Only the first items of a page wait for the entrance animation
+const MAX_STAGGERED = 10;
+const staggerDelay = (index: number) => Math.min(index, MAX_STAGGERED) * 0.1;
+
+const EmailList: React.FC<EmailListProps> = ({
+  emails,
+  onEmailSelect,
+  onToggleStar,
+  selectedEmailId,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore
+}) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Observed again after every page, so a page that doesn't fill the list
+  // is followed by the next one right away
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore || !onLoadMore) return;
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore, emails.length]);
+
+  const sentinel = hasMore && (
+    <div ref={sentinelRef} className="email-list-sentinel" style={{ padding: '1rem', textAlign: 'center', opacity: 0.7 }}>
+      {loadingMore ? 'Loading more emails...' : ''}
+    </div>
+  );
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -23,7 +64,7 @@ const EmailList: React.FC<EmailListProps> = ({ emails, onEmailSelect, selectedEm
   if (emails.length === 0) {
     return (
       <div className="email-list empty">
-        <p>No emails found. Try searching or check if your backend is running.</p>
+        {hasMore ? sentinel : <p>No emails found. Try searching or check if your backend is running.</p>}
       </div>
     );
   }
@@ -63,14 +104,34 @@ const EmailList: React.FC<EmailListProps> = ({ emails, onEmailSelect, selectedEm
     return 'normal';
   };
 
-  const isUnread = (email: Email) => {
-    // Simulated unread logic - in real app this would come from email data
-    return Math.random() > 0.6;
+  const isUnread = (email: Email) => email._source?.isRead === false;
+
+  const getSenderName = (from: string) => from.split('<')[0]?.trim().replace(/^"|"$/g, '') || from;
+
+  // Conversations list everyone who wrote in them, like "Alice, Bob"
+  const getSenderLabel = (email: Email) => {
+    const participants = email._source?.thread?.participants || [];
+    if (participants.length > 1) {
+      return participants.map(getSenderName).join(', ');
+    }
+    return email._source?.from?.split('<')[0]?.trim() || 'Unknown Sender';
   };
 
-  const hasAttachment = (email: Email) => {
-    // Simulated attachment logic - in real app this would come from email data
-    return Math.random() > 0.8;
+  const hasAttachment = (email: Email) => email._source?.hasAttachments === true;
+
+  // Where the search matched: body fragments, else attachment text, else the
+  // start of the body
+  const getPreview = (email: Email): React.ReactNode => {
+    const fragments = email.highlight?.text || email.highlight?.attachmentText;
+    if (fragments?.length) {
+      return fragments.map((fragment, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && ' … '}
+          {renderHighlight(fragment)}
+        </React.Fragment>
+      ));
+    }
+    return truncateText((email._source?.body || '').replace(/<[^>]*>/g, ''), 100);
   };
 
   return (
@@ -111,7 +172,7 @@ const EmailList: React.FC<EmailListProps> = ({ emails, onEmailSelect, selectedEm
                   className="unread-indicator"
                   initial={{ scale: 0 }}
                   animate={{ scale: 1 }}
-                  transition={{ delay: index * 0.1 }}
+                  transition={{ delay: staggerDelay(index) }}
                 />
               )}
               {priority === 'high' && (
@@ -119,7 +180,7 @@ const EmailList: React.FC<EmailListProps> = ({ emails, onEmailSelect, selectedEm
                   className="priority-indicator high"
                   initial={{ rotate: -45, opacity: 0 }}
                   animate={{ rotate: 0, opacity: 1 }}
-                  transition={{ delay: index * 0.1 + 0.2 }}
+                  transition={{ delay: staggerDelay(index) + 0.2 }}
                 >
                   !
                 </motion.div>
@@ -142,8 +203,15 @@ const EmailList: React.FC<EmailListProps> = ({ emails, onEmailSelect, selectedEm
                       {initials}
                     </div>
                     <strong className={unread ? 'unread-text' : ''} style={{ color: senderTheme.text }}>
-                      {email._source?.from?.split('<')[0]?.trim() || 'Unknown Sender'}
+                      {email.highlight?.from && (email._source?.thread?.participants?.length || 0) <= 1
+                        ? renderHighlight(email.highlight.from[0])
+                        : getSenderLabel(email)}
                     </strong>
+                    {(email._source?.thread?.messageCount || 0) > 1 && (
+                      <span className="thread-count" title={`${email._source.thread!.messageCount} messages in this conversation`}>
+                        {email._source.thread!.messageCount}
+                      </span>
+                    )}
                   </div>
                   <div className="email-meta">
                     <span className="email-time">
@@ -154,21 +222,31 @@ const EmailList: React.FC<EmailListProps> = ({ emails, onEmailSelect, selectedEm
                         className="attachment-indicator"
                         initial={{ scale: 0 }}
                         animate={{ scale: 1 }}
-                        transition={{ delay: index * 0.1 + 0.3 }}
+                        transition={{ delay: staggerDelay(index) + 0.3 }}
                       >
                         📎
                       </motion.span>
                     )}
+                    {email._source?.matchedInAttachment && (
+                      <span
+                        className="attachment-match-indicator"
+                        title="Your search matched text inside an attachment"
+                      >
+                        Found in attachment
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
               
               <div className={`email-subject ${unread ? 'unread-text' : ''}`}>
-                {truncateText(email._source?.subject || 'No Subject', 60)}
+                {email.highlight?.subject
+                  ? renderHighlight(email.highlight.subject[0])
+                  : truncateText(email._source?.subject || 'No Subject', 60)}
               </div>
               
               <div className="email-preview">
-                {truncateText((email._source?.body || '').replace(/<[^>]*>/g, ''), 100)}
+                {getPreview(email)}
               </div>
               
               <div className="email-footer">
@@ -189,10 +267,11 @@ const EmailList: React.FC<EmailListProps> = ({ emails, onEmailSelect, selectedEm
                     whileTap={{ scale: 0.9 }}
                     onClick={(e) => {
                       e.stopPropagation();
-                      // Handle star toggle
+                      onToggleStar?.(email);
                     }}
+                    title={email._source?.isStarred ? 'Unstar' : 'Star'}
                   >
-                    ⭐
+                    {email._source?.isStarred ? '⭐' : '☆'}
                   </motion.button>
                 </div>
               </div>
@@ -200,6 +279,7 @@ const EmailList: React.FC<EmailListProps> = ({ emails, onEmailSelect, selectedEm
           </motion.div>
         );
       })}
+      {sentinel}
     </motion.div>
   );
 };
@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTheme } from '../contexts/ThemeContext';
+import { Account, EmailFacets, emailService, FacetBucket } from '../services/api';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -11,7 +12,8 @@ interface SidebarProps {
   onAccountSelect: (account: string) => void;
   onQuickFilter: (filter: string) => void;
   onCompose: () => void;
-  emails: any[];
+  // Counts for the current search, from the server
+  facets: EmailFacets | null;
   activeFilter: string;
 }
 
@@ -24,49 +26,40 @@ const Sidebar: React.FC<SidebarProps> = ({
   onAccountSelect,
   onQuickFilter,
   onCompose,
-  emails,
+  facets,
   activeFilter
 }) => {
   // Using modern theme-aware sidebar design
+  const [configuredAccounts, setConfiguredAccounts] = useState<Account[]>([]);
 
-  // Calculate dynamic counts from emails
-  const getCountForFolder = (folderId: string) => {
-    if (!emails || emails.length === 0) return 0;
-    
-    switch (folderId) {
-      case 'inbox':
-        return emails.filter(email => 
-          email._source?.boxName?.toLowerCase() === 'inbox' || 
-          !email._source?.boxName
-        ).length;
-      case 'sent':
-        return emails.filter(email => 
-          email._source?.boxName?.toLowerCase() === 'sent'
-        ).length;
-      case 'drafts':
-        return emails.filter(email => 
-          email._source?.boxName?.toLowerCase() === 'drafts'
-        ).length;
-      case 'starred':
-        return emails.filter(email => 
-          email._source?.subject?.includes('⭐') || 
-          email._source?.subject?.toLowerCase().includes('important') ||
-          email._source?.subject?.toLowerCase().includes('urgent') ||
-          (email._id?.length || 0) % 5 === 0 // Deterministic "starred" logic
-        ).length;
-      case 'archive':
-        return emails.filter(email => 
-          email._source?.boxName?.toLowerCase() === 'archive'
-        ).length;
-      case 'trash':
-        return emails.filter(email => 
-          email._source?.boxName?.toLowerCase() === 'trash'
-        ).length;
+  useEffect(() => {
+    if (!isOpen) return;
+    emailService.getAccounts()
+      .then(setConfiguredAccounts)
+      .catch(error => console.error('Failed to load accounts:', error));
+  }, [isOpen]);
+
+  const getBucketCount = (buckets: FacetBucket[] | undefined, value: string) =>
+    buckets?.find(bucket => bucket.value === value)?.count || 0;
+
+  const getCountForFolder = (folderId: string) =>
+    folderId === 'starred' ? facets?.starred || 0 : getBucketCount(facets?.folders, folderId);
+
+  const getCountForFilter = (filterId: string) => {
+    switch (filterId) {
+      case 'unread':
+        return facets?.unread || 0;
+      case 'today':
+        return getBucketCount(facets?.dates, 'today');
+      case 'attachments':
+        return facets?.attachments || 0;
       default:
         return 0;
     }
   };
 
+  const totalEmails = facets?.total || 0;
+
   const folders = [
     { id: 'inbox', name: 'Inbox', icon: '📧', count: getCountForFolder('inbox'), primary: true },
     { id: 'starred', name: 'Starred', icon: '⭐', count: getCountForFolder('starred') },
@@ -84,10 +77,18 @@ const Sidebar: React.FC<SidebarProps> = ({
   ];
 
   const accounts = [
-    { id: '', name: 'All Accounts', icon: '📧', active: selectedAccount === '' },
-    { id: 'work@company.com', name: 'work@company.com', icon: '🏢', active: selectedAccount === 'work@company.com' },
-    { id: 'personal@email.com', name: 'personal@email.com', icon: '👤', active: selectedAccount === 'personal@email.com' },
-  ];
+    { id: '', name: 'All Accounts', icon: '📧', color: undefined as string | undefined, active: selectedAccount === '' },
+    ...configuredAccounts.map(account => ({
+      id: account.email,
+      name: account.displayName,
+      icon: (account.displayName || account.email).charAt(0).toUpperCase(),
+      color: account.color,
+      active: selectedAccount === account.email
+    })),
+  ].map(account => ({
+    ...account,
+    count: account.id ? getBucketCount(facets?.accounts, account.id) : null
+  }));
 
   return (
     <AnimatePresence>
@@ -153,11 +154,19 @@ const Sidebar: React.FC<SidebarProps> = ({
                       whileHover={{ x: 4, scale: 1.02 }}
                       whileTap={{ scale: 0.98 }}
                     >
-                      <div className="account-avatar">{account.icon}</div>
+                      <div
+                        className="account-avatar"
+                        style={account.color ? { background: account.color, color: 'white', fontWeight: 'bold' } : undefined}
+                      >
+                        {account.icon}
+                      </div>
                       <div className="account-info">
-                        <span className="account-email">{account.name}</span>
+                        <span className="account-email" title={account.id || undefined}>{account.name}</span>
                         {account.active && <span className="account-status">Active</span>}
                       </div>
+                      {!!account.count && (
+                        <span className="folder-count" style={{ marginLeft: 'auto' }}>{account.count}</span>
+                      )}
                     </motion.button>
                   ))}
                 </div>
@@ -214,22 +223,41 @@ const Sidebar: React.FC<SidebarProps> = ({
                         <span className="filter-icon">{action.icon}</span>
                         <span className="filter-name">{action.name}</span>
                       </div>
+                      {getCountForFilter(action.id) > 0 && (
+                        <span className="folder-count" style={{ marginLeft: 'auto' }}>{getCountForFilter(action.id)}</span>
+                      )}
                     </motion.button>
                   ))}
                 </div>
               </div>
 
+              {!!facets?.categories.length && (
+                <div className="sidebar-section">
+                  <h3 className="section-title">Categories</h3>
+                  <div className="section-content">
+                    {facets.categories.map(category => (
+                      <div key={category.value} className="folder-item" style={{ cursor: 'default' }}>
+                        <div className="folder-content">
+                          <span className="folder-name">{category.value}</span>
+                        </div>
+                        <span className="folder-count">{category.count}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="sidebar-footer">
                 <div className="storage-info">
                   <div className="storage-header">
                     <span className="storage-title">📊 Storage</span>
-                    <span className="storage-usage">{((emails?.length || 0) * 0.05).toFixed(1)} GB / 15 GB</span>
+                    <span className="storage-usage">{(totalEmails * 0.05).toFixed(1)} GB / 15 GB</span>
                   </div>
                   <div className="storage-bar">
                     <motion.div 
                       className="storage-fill"
                       initial={{ width: 0 }}
-                      animate={{ width: `${Math.min(((emails?.length || 0) * 0.05 / 15) * 100, 100)}%` }}
+                      animate={{ width: `${Math.min((totalEmails * 0.05 / 15) * 100, 100)}%` }}
                       transition={{ delay: 0.5, duration: 1 }}
                     />
                   </div>
@@ -237,7 +265,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                 <div className="sidebar-stats">
                   <div className="stat-item">
                     <span className="stat-icon">📧</span>
-                    <span className="stat-text">{emails?.length || 0} emails</span>
+                    <span className="stat-text">{totalEmails} emails</span>
                   </div>
                 </div>
               </div>
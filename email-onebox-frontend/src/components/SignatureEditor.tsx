@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Account, AccountSignature, emailService } from '../services/api';
+
+interface SignatureEditorProps {
+  account: Account;
+  onSaved: (signature: AccountSignature | null) => void;
+  onClose: () => void;
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid var(--border-color)',
+  borderRadius: '8px',
+  backgroundColor: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+  fontSize: '13px',
+  resize: 'vertical',
+  fontFamily: 'inherit'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  fontSize: '12px',
+  border: '1px solid var(--border-color)',
+  borderRadius: '4px',
+  backgroundColor: 'var(--bg-secondary)',
+  color: 'var(--text-secondary)',
+  cursor: 'pointer'
+};
+
+// Edits the signature of one account. Either version may be left empty and
+// is then made from the other one by the server.
+const SignatureEditor: React.FC<SignatureEditorProps> = ({ account, onSaved, onClose }) => {
+  const [text, setText] = useState(account.signature?.text || '');
+  const [html, setHtml] = useState(account.signature?.html || '');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setText(account.signature?.text || '');
+    setHtml(account.signature?.html || '');
+  }, [account]);
+
+  const save = async (signature: { text: string; html: string }) => {
+    setSaving(true);
+    try {
+      const saved = await emailService.saveSignature(account.id, signature);
+      onSaved(saved);
+      toast.success(saved ? 'Signature saved' : 'Signature removed');
+      onClose();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '12px',
+        border: '1px solid var(--border-color)',
+        borderRadius: '8px'
+      }}
+    >
+      <div style={{ color: 'var(--text-primary)', fontSize: '13px', fontWeight: 500 }}>
+        ✍️ Signature for {account.email}
+      </div>
+      <textarea
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder="Plain text, e.g. your name and phone number"
+        rows={3}
+        style={fieldStyle}
+      />
+      <textarea
+        value={html}
+        onChange={e => setHtml(e.target.value)}
+        placeholder="HTML version (optional), e.g. with links or a logo"
+        rows={3}
+        style={{ ...fieldStyle, fontFamily: 'monospace' }}
+      />
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+        {account.signature && (
+          <button type="button" disabled={saving} onClick={() => save({ text: '', html: '' })} style={buttonStyle}>
+            Remove
+          </button>
+        )}
+        <button type="button" onClick={onClose} style={buttonStyle}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          disabled={saving || (!text.trim() && !html.trim())}
+          onClick={() => save({ text, html })}
+          style={{ ...buttonStyle, color: 'var(--primary-color, #1a73e8)', fontWeight: 'bold' }}
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SignatureEditor;
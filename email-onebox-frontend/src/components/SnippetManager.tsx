@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { emailService, Snippet } from '../services/api';
+
+interface SnippetManagerProps {
+  snippets: Snippet[];
+  onChange: (snippets: Snippet[]) => void;
+  onClose: () => void;
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  border: '1px solid var(--border-color)',
+  borderRadius: '8px',
+  backgroundColor: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+  fontSize: '13px',
+  fontFamily: 'inherit'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  fontSize: '12px',
+  border: '1px solid var(--border-color)',
+  borderRadius: '4px',
+  backgroundColor: 'var(--bg-secondary)',
+  color: 'var(--text-secondary)',
+  cursor: 'pointer'
+};
+
+const EMPTY_SNIPPET = { shortcut: '', title: '', body: '' };
+
+// Lists, adds, edits and removes the snippets offered by the "/" command
+const SnippetManager: React.FC<SnippetManagerProps> = ({ snippets, onChange, onClose }) => {
+  const [form, setForm] = useState(EMPTY_SNIPPET);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await emailService.saveSnippet(form, editingId || undefined);
+      const rest = snippets.filter(snippet => snippet.id !== saved.id);
+      onChange([...rest, saved].sort((a, b) => a.shortcut.localeCompare(b.shortcut)));
+      setForm(EMPTY_SNIPPET);
+      setEditingId(null);
+      toast.success(`Snippet /${saved.shortcut} saved`);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (snippet: Snippet) => {
+    try {
+      await emailService.deleteSnippet(snippet.id);
+      onChange(snippets.filter(s => s.id !== snippet.id));
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '12px',
+        border: '1px solid var(--border-color)',
+        borderRadius: '8px'
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span style={{ color: 'var(--text-primary)', fontSize: '13px', fontWeight: 500 }}>
+          📋 Snippets: type /shortcut in the message to insert one
+        </span>
+        <button type="button" onClick={onClose} style={buttonStyle}>
+          Close
+        </button>
+      </div>
+
+      {snippets.map(snippet => (
+        <div key={snippet.id} style={{ display: 'flex', gap: '8px', alignItems: 'center', fontSize: '13px' }}>
+          <strong style={{ color: 'var(--text-primary)' }}>/{snippet.shortcut}</strong>
+          <span style={{ flex: 1, color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {snippet.title}
+          </span>
+          <button
+            type="button"
+            onClick={() => {
+              setEditingId(snippet.id);
+              setForm({ shortcut: snippet.shortcut, title: snippet.title, body: snippet.body });
+            }}
+            style={buttonStyle}
+          >
+            Edit
+          </button>
+          <button type="button" onClick={() => handleDelete(snippet)} title={`Delete /${snippet.shortcut}`} style={buttonStyle}>
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <input
+          value={form.shortcut}
+          onChange={e => setForm(prev => ({ ...prev, shortcut: e.target.value }))}
+          placeholder="shortcut"
+          style={{ ...fieldStyle, width: '120px' }}
+        />
+        <input
+          value={form.title}
+          onChange={e => setForm(prev => ({ ...prev, title: e.target.value }))}
+          placeholder="Title"
+          style={{ ...fieldStyle, flex: 1 }}
+        />
+      </div>
+      <textarea
+        value={form.body}
+        onChange={e => setForm(prev => ({ ...prev, body: e.target.value }))}
+        placeholder="Hi {{firstName}}, thanks for your email about {{subject}}..."
+        rows={3}
+        style={{ ...fieldStyle, resize: 'vertical' }}
+      />
+      <div style={{ display: 'flex', gap: '8px', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span style={{ color: 'var(--text-secondary)', fontSize: '11px' }}>
+          Filled in automatically: {'{{firstName}} {{recipientName}} {{recipientEmail}} {{senderName}} {{senderEmail}} {{subject}} {{date}}'}
+        </span>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {editingId && (
+            <button
+              type="button"
+              onClick={() => {
+                setEditingId(null);
+                setForm(EMPTY_SNIPPET);
+              }}
+              style={buttonStyle}
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="button"
+            disabled={saving || !form.shortcut.trim() || !form.body.trim()}
+            onClick={handleSave}
+            style={{ ...buttonStyle, color: 'var(--primary-color, #1a73e8)', fontWeight: 'bold' }}
+          >
+            {editingId ? 'Update' : 'Add'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SnippetManager;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { emailService, Snippet } from '../services/api';
+
+// "/thanks" at the start of a line or after a space, right before the caret
+const SLASH_PATTERN = /(^|\s)\/([\w-]*)$/;
+const MAX_MATCHES = 6;
+
+interface SnippetMenuOptions {
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  value: string;
+  onChange: (value: string) => void;
+  snippets: Snippet[];
+  // Values for the snippets' {{placeholders}}
+  variables: Record<string, string>;
+}
+
+// Slash command for a composer textarea: typing "/" lists matching snippets,
+// and picking one replaces the command with the filled-in snippet. Spread
+// `textareaProps` onto the textarea and render `menu` below it.
+export const useSnippetMenu = ({ textareaRef, value, onChange, snippets, variables }: SnippetMenuOptions) => {
+  const [query, setQuery] = useState<string | null>(null);
+  const [active, setActive] = useState(0);
+
+  const matches = query === null
+    ? []
+    : snippets.filter(snippet => snippet.shortcut.startsWith(query)).slice(0, MAX_MATCHES);
+
+  const updateQuery = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || textarea.selectionStart !== textarea.selectionEnd) {
+      setQuery(null);
+      return;
+    }
+    const match = textarea.value.slice(0, textarea.selectionStart).match(SLASH_PATTERN);
+    const next = match ? match[2].toLowerCase() : null;
+    if (next !== query) {
+      setQuery(next);
+      setActive(0);
+    }
+  };
+
+  const insert = async (snippet: Snippet) => {
+    const textarea = textareaRef.current;
+    if (!textarea || query === null) return;
+    const caret = textarea.selectionStart;
+    const start = caret - query.length - 1;
+    setQuery(null);
+
+    try {
+      const { body } = await emailService.renderSnippet(snippet.id, variables);
+      onChange(value.slice(0, start) + body + value.slice(caret));
+      // Select the first placeholder left to fill in, or put the caret after the snippet
+      const placeholder = /\{\{[^}]+\}\}/.exec(body);
+      requestAnimationFrame(() => {
+        textarea.focus();
+        if (placeholder) {
+          textarea.setSelectionRange(start + placeholder.index, start + placeholder.index + placeholder[0].length);
+        } else {
+          textarea.setSelectionRange(start + body.length, start + body.length);
+        }
+      });
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (matches.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : matches.length - 1;
+      setActive(current => (current + step) % matches.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insert(matches[Math.min(active, matches.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      setQuery(null);
+    }
+  };
+
+  const menu = matches.length > 0 && (
+    <div
+      role="listbox"
+      style={{
+        border: '1px solid var(--border-color)',
+        borderRadius: '8px',
+        backgroundColor: 'var(--bg-secondary)',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+        overflow: 'hidden'
+      }}
+    >
+      {matches.map((snippet, index) => (
+        <div
+          key={snippet.id}
+          role="option"
+          aria-selected={index === active}
+          onMouseDown={e => {
+            e.preventDefault();
+            insert(snippet);
+          }}
+          onMouseEnter={() => setActive(index)}
+          style={{
+            padding: '6px 12px',
+            cursor: 'pointer',
+            fontSize: '13px',
+            backgroundColor: index === active ? '#e8f0fe' : 'transparent',
+            color: 'var(--text-primary)'
+          }}
+        >
+          <strong>/{snippet.shortcut}</strong>
+          <span style={{ color: 'var(--text-secondary)', marginLeft: '8px' }}>{snippet.title}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  return {
+    textareaProps: {
+      onKeyDown: handleKeyDown,
+      onSelect: updateQuery,
+      onBlur: () => setQuery(null)
+    },
+    menu
+  };
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { Email } from '../services/api';
+import { getSenderAvatarColor, getSenderInitials } from '../utils/colorUtils';
+import { splitQuotedText } from '../utils/quoteUtils';
+import AttachmentList from './AttachmentList';
+import EmailBody from './EmailBody';
+
+interface ThreadMessageProps {
+  email: Email;
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+// One message of a conversation. Collapsed messages show a one-line preview.
+const ThreadMessage: React.FC<ThreadMessageProps> = ({ email, expanded, onToggle }) => {
+  const from = email._source?.from || 'Unknown';
+  const preview = splitQuotedText(email._source?.body || '').visible
+    .replace(/<[^>]*>/g, '')
+    .replace(/\s+/g, ' ')
+    .slice(0, 120);
+
+  return (
+    <motion.div
+      className={`thread-message ${expanded ? 'expanded' : 'collapsed'}`}
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="thread-message-header" onClick={onToggle}>
+        <span
+          className="avatar"
+          style={{
+            background: getSenderAvatarColor(from),
+            color: 'white',
+            fontWeight: 'bold',
+            fontSize: '0.75rem'
+          }}
+        >
+          {getSenderInitials(from)}
+        </span>
+        <div className="thread-message-summary">
+          <strong className={email._source?.isRead === false ? 'unread-text' : ''}>
+            {from.split('<')[0]?.trim() || from}
+          </strong>
+          {expanded ? (
+            <span className="thread-message-to">
+              to {Array.isArray(email._source?.to) ? email._source.to.join(', ') : email._source?.to}
+            </span>
+          ) : (
+            <span className="thread-message-preview">{preview}</span>
+          )}
+        </div>
+        <span className="thread-message-date">
+          {email._source?.hasAttachments && '📎 '}
+          {email._source?.date ? formatDate(email._source.date) : ''}
+        </span>
+      </div>
+
+      {expanded && (
+        <div className="thread-message-body">
+          <EmailBody body={email._source?.body || ''} />
+          <AttachmentList email={email} />
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default ThreadMessage;
@@ -7,8 +7,32 @@ const api = axios.create({
   timeout: 10000,
 });
 
+export interface EmailAttachment {
+  id: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  inline: boolean;
+}
+
+export interface ThreadSummary {
+  threadId: string;
+  messageCount: number;
+  unreadCount: number;
+  participants: string[];
+}
+
+// Fragments of the fields a search matched; see renderHighlight
+export interface EmailHighlight {
+  subject?: string[];
+  from?: string[];
+  text?: string[];
+  attachmentText?: string[];
+}
+
 export interface Email {
   _id: string;
+  highlight?: EmailHighlight;
   _source: {
     messageId: string;
     from: string;
@@ -18,9 +42,27 @@ export interface Email {
     body: string;
     account: string;
     boxName: string;
+    folderRole?: string;
+    isRead?: boolean;
+    isStarred?: boolean;
+    isAnswered?: boolean;
+    attachments?: EmailAttachment[];
+    hasAttachments?: boolean;
+    matchedInAttachment?: boolean;
+    threadId?: string;
+    thread?: ThreadSummary;
   };
 }
 
+export type FlagAction = 'read' | 'unread' | 'star' | 'unstar';
+
+export type MailboxAction = 'archive' | 'trash' | 'restore';
+
+export interface EmailLocation {
+  folder: string;
+  folderRole: string | null;
+}
+
 export interface EmailSearchResponse {
   hits: {
     hits: Email[];
@@ -30,6 +72,37 @@ export interface EmailSearchResponse {
   };
 }
 
+// One page of /api/emails; pass nextCursor back for the following page
+export interface EmailPage {
+  emails: Email[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface SearchOptions {
+  threads?: boolean;
+  cursor?: string | null;
+  pageSize?: number;
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+// Counts over every email matching a search, not just the loaded pages.
+// `dates` holds the today, week, month, year and older buckets.
+export interface EmailFacets {
+  total: number;
+  accounts: FacetBucket[];
+  folders: (FacetBucket & { unread: number })[];
+  categories: FacetBucket[];
+  unread: number;
+  starred: number;
+  attachments: number;
+  dates: FacetBucket[];
+}
+
 export interface EmailContext {
   subject: string;
   body: string;
@@ -62,6 +135,9 @@ export interface ReplySuggestionsResponse {
   generated_at: string;
 }
 
+// How an outgoing body is written; the server renders it to sanitized HTML
+export type BodyFormat = 'plain' | 'markdown' | 'html';
+
 export interface SendEmailRequest {
   from: string;
   to: string;
@@ -69,52 +145,194 @@ export interface SendEmailRequest {
   bcc?: string;
   subject: string;
   body: string;
+  format?: BodyFormat;
   priority?: 'low' | 'normal' | 'high';
+  attachments?: File[];
+  // ISO date to send at instead of right away
+  sendAt?: string;
+  // The draft the email was written in; the server discards it once queued
+  draftId?: string;
+}
+
+// Mirrors the backend's upload limit (per file and for all files together)
+export const MAX_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+
+export type ReplyMode = 'reply' | 'replyAll' | 'forward';
+
+export interface ReplyDraft {
+  mode: ReplyMode;
+  from: string;
+  to: string;
+  cc: string;
+  subject: string;
+  body: string;
+}
+
+export interface SendReplyRequest {
+  to: string;
+  cc?: string;
+  bcc?: string;
+  subject: string;
+  body: string;
+  format?: BodyFormat;
+  sendAt?: string;
 }
 
+export interface ServerSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  rejectUnauthorized: boolean;
+  user: string;
+  hasPassword: boolean;
+}
+
+// Added to the end of new emails; `html` is sanitized by the server
+export interface AccountSignature {
+  text: string;
+  html: string;
+  updatedAt: string;
+}
+
+export interface Account {
+  id: string;
+  email: string;
+  displayName: string;
+  color: string;
+  imap: ServerSettings;
+  smtp: ServerSettings | null;
+  oauth: { provider: 'google' | 'microsoft' } | null;
+  sync: {
+    enabled: boolean;
+    folders: string[];
+    initialSyncDays: number;
+  };
+  signature: AccountSignature | null;
+}
+
+// Reusable text inserted by typing /shortcut; `{{variables}}` are filled in
+export interface Snippet {
+  id: string;
+  shortcut: string;
+  title: string;
+  body: string;
+  variables: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SnippetFields = Pick<Snippet, 'shortcut' | 'title' | 'body'>;
+
+export type OutboxStatus =
+  | 'scheduled'
+  | 'queued'
+  | 'sending'
+  | 'sent'
+  | 'failed'
+  | 'fallback-logged'
+  | 'cancelled';
+
 export interface SendEmailResponse {
   success: boolean;
   messageId?: string;
   error?: string;
+  // Whether the email actually left; fallback-logged and queued ones did not
+  delivered?: boolean;
+  status?: OutboxStatus;
+  outboxId?: string;
+  message?: string;
+  nextAttemptAt?: string;
+  sendAt?: string;
+  // The send can be cancelled until then
+  undoUntil?: string;
 }
 
+export interface OutboxEntry {
+  id: string;
+  status: OutboxStatus;
+  delivered: boolean;
+  message: {
+    from: string;
+    to: string;
+    cc?: string;
+    subject: string;
+    messageId: string;
+    attachments: { filename: string; contentType?: string; size: number }[];
+  };
+  sendAt: string | null;
+  undoUntil: string | null;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+  sentAt: string | null;
+}
+
+export interface Draft {
+  id: string;
+  from: string;
+  to: string;
+  cc: string;
+  bcc: string;
+  subject: string;
+  body: string;
+  format: BodyFormat;
+  priority: 'low' | 'normal' | 'high';
+  messageId: string;
+  syncedAt: string | null;
+  syncError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type DraftFields = Pick<Draft, 'from' | 'to' | 'cc' | 'bcc' | 'subject' | 'body' | 'format' | 'priority'>;
+
+// Maps an email document from the backend onto the shape the UI works with
+const toEmail = (email: any): Email => ({
+  _id: email._id || email.messageId || Math.random().toString(),
+  _source: {
+    messageId: email.messageId || email._id,
+    from: email.from,
+    to: Array.isArray(email.to) ? email.to : [email.to],
+    subject: email.subject,
+    date: email.date,
+    body: email.text || email.body || '',
+    account: email.account || 'Unknown',
+    boxName: email.boxName || email.folder || 'INBOX',
+    folderRole: email.folderRole || undefined,
+    isRead: email.isRead,
+    isStarred: email.isStarred,
+    isAnswered: email.isAnswered,
+    attachments: email.attachments || [],
+    hasAttachments: email.hasAttachments,
+    matchedInAttachment: email.matchedInAttachment,
+    threadId: email.threadId,
+    thread: email.thread
+  },
+  ...(email.highlight ? { highlight: email.highlight } : {})
+});
+
 export const emailService = {
-  searchEmails: async (query: string = '', account: string = ''): Promise<Email[]> => {
+  searchEmails: async (query: string = '', account: string = '', options: SearchOptions = {}): Promise<EmailPage> => {
+    const { threads, cursor, pageSize } = options;
     try {
-      console.log('Making API request to:', `${API_BASE_URL}/emails`, { q: query, account });
-      
       const response = await api.get<any>('/emails', {
         params: {
           q: query,
-          account: account
+          account: account,
+          ...(threads ? { threads: true } : {}),
+          ...(cursor ? { cursor } : {}),
+          ...(pageSize ? { pageSize } : {})
         }
       });
-      
-      console.log('API Response:', response.data);
-      
-      // Handle different response formats
-      if (response.data && response.data.hits && response.data.hits.hits) {
-        // Elasticsearch format
-        return response.data.hits.hits;
-      } else if (Array.isArray(response.data)) {
-        // Direct array format (current backend)
-        return response.data.map((email: any) => ({
-          _id: email._id || email.messageId || Math.random().toString(),
-          _source: {
-            messageId: email.messageId || email._id,
-            from: email.from,
-            to: Array.isArray(email.to) ? email.to : [email.to],
-            subject: email.subject,
-            date: email.date,
-            body: email.text || email.body || '',
-            account: email.account || 'Unknown',
-            boxName: email.boxName || 'INBOX'
-          }
-        }));
-      } else {
-        console.warn('Unexpected response format:', response.data);
-        return [];
-      }
+
+      return {
+        emails: (response.data.emails || []).map(toEmail),
+        total: response.data.total || 0,
+        nextCursor: response.data.nextCursor || null
+      };
     } catch (error: any) {
       console.error('Error fetching emails:', {
         message: error.message,
@@ -123,10 +341,29 @@ export const emailService = {
         url: error.config?.url,
         fullError: error
       });
-      throw new Error(`Failed to fetch emails: ${error.message}`);
+      // An invalid query comes back with the reason, e.g. an unreadable date
+      throw new Error(error.response?.data?.details || `Failed to fetch emails: ${error.message}`);
     }
   },
   
+  getFacets: async (query: string = '', account: string = ''): Promise<EmailFacets> => {
+    try {
+      const response = await api.get('/emails/facets', {
+        params: {
+          q: query,
+          account,
+          // Days start at local midnight for the date buckets
+          tz: Intl.DateTimeFormat().resolvedOptions().timeZone
+        }
+      });
+      const { success, ...facets } = response.data;
+      return facets;
+    } catch (error: any) {
+      console.error('Error loading email counts:', error);
+      throw new Error(error.response?.data?.details || error.response?.data?.error || 'Failed to load email counts');
+    }
+  },
+
   testConnection: async (): Promise<boolean> => {
     try {
       const response = await api.get('/emails', { params: { q: '', account: '' } });
@@ -170,11 +407,33 @@ export const emailService = {
     }
   },
 
-  sendEmail: async (emailData: SendEmailRequest): Promise<SendEmailResponse> => {
+  sendEmail: async (
+    emailData: SendEmailRequest,
+    onUploadProgress?: (percent: number) => void
+  ): Promise<SendEmailResponse> => {
     try {
       console.log('Sending email:', emailData.subject);
-      
-      const response = await api.post<SendEmailResponse>('/send-email', emailData);
+
+      const { attachments = [], ...fields } = emailData;
+      let response;
+      if (attachments.length > 0) {
+        // Files go up as multipart/form-data, which may take a while
+        const form = new FormData();
+        Object.entries(fields).forEach(([key, value]) => {
+          if (value !== undefined) form.append(key, value);
+        });
+        attachments.forEach(file => form.append('attachments', file, file.name));
+        response = await api.post<SendEmailResponse>('/send-email', form, {
+          timeout: 0,
+          onUploadProgress: event => {
+            if (onUploadProgress && event.total) {
+              onUploadProgress(Math.round((event.loaded / event.total) * 100));
+            }
+          }
+        });
+      } else {
+        response = await api.post<SendEmailResponse>('/send-email', fields);
+      }
       
       if (response.data.success) {
         console.log('Email sent successfully:', response.data.messageId);
@@ -189,7 +448,288 @@ export const emailService = {
         statusText: error.response?.statusText,
         data: error.response?.data
       });
-      throw new Error(`Failed to send email: ${error.response?.data?.error || error.message}`);
+      throw new Error(`Failed to send email: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  setEmailFlag: async (emailId: string, action: FlagAction): Promise<void> => {
+    try {
+      await api.post(`/emails/${encodeURIComponent(emailId)}/${action}`);
+    } catch (error: any) {
+      console.error(`Error marking email as ${action}:`, {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to mark email as ${action}: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  moveEmail: async (emailId: string, action: MailboxAction | 'move', folder?: string): Promise<EmailLocation> => {
+    try {
+      const response = await api.post(`/emails/${encodeURIComponent(emailId)}/${action}`, folder ? { folder } : {});
+      const { folder: newFolder, folderRole } = response.data.email;
+      return { folder: newFolder, folderRole };
+    } catch (error: any) {
+      console.error(`Error running ${action} on email:`, {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to ${action} email: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  getAttachmentUrl: (emailId: string, attachmentId: string): string =>
+    `${API_BASE_URL}/emails/${encodeURIComponent(emailId)}/attachments/${encodeURIComponent(attachmentId)}`,
+
+  getThread: async (threadId: string): Promise<{ thread: ThreadSummary; emails: Email[] }> => {
+    try {
+      const response = await api.get(`/threads/${encodeURIComponent(threadId)}`);
+      return {
+        thread: response.data.thread,
+        emails: response.data.emails.map(toEmail)
+      };
+    } catch (error: any) {
+      console.error('Error fetching thread:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to fetch thread: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  getReplyDraft: async (emailId: string, mode: ReplyMode): Promise<ReplyDraft> => {
+    try {
+      const response = await api.get(`/emails/${encodeURIComponent(emailId)}/reply`, {
+        params: { mode }
+      });
+      return response.data.draft;
+    } catch (error: any) {
+      console.error('Error preparing reply:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to prepare reply: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  sendReply: async (emailId: string, mode: ReplyMode, reply: SendReplyRequest): Promise<SendEmailResponse> => {
+    try {
+      const response = await api.post(`/emails/${encodeURIComponent(emailId)}/reply`, { mode, ...reply });
+      return response.data;
+    } catch (error: any) {
+      console.error('Error sending reply:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to send reply: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  getAccounts: async (): Promise<Account[]> => {
+    try {
+      const response = await api.get('/accounts');
+      return response.data.accounts;
+    } catch (error: any) {
+      console.error('Error fetching accounts:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to fetch accounts: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  // An empty signature removes it
+  saveSignature: async (accountId: string, signature: { text: string; html: string }): Promise<AccountSignature | null> => {
+    try {
+      const response = await api.put(`/accounts/${encodeURIComponent(accountId)}/signature`, signature);
+      return response.data.signature;
+    } catch (error: any) {
+      console.error('Error saving signature:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to save signature: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  getSnippets: async (): Promise<Snippet[]> => {
+    try {
+      const response = await api.get('/snippets');
+      return response.data.snippets;
+    } catch (error: any) {
+      console.error('Error fetching snippets:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to fetch snippets: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  // Creates the snippet without an id, or updates an existing one
+  saveSnippet: async (fields: SnippetFields, id?: string): Promise<Snippet> => {
+    try {
+      const response = id
+        ? await api.put(`/snippets/${encodeURIComponent(id)}`, fields)
+        : await api.post('/snippets', fields);
+      return response.data.snippet;
+    } catch (error: any) {
+      console.error('Error saving snippet:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to save snippet: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  deleteSnippet: async (id: string): Promise<void> => {
+    try {
+      await api.delete(`/snippets/${encodeURIComponent(id)}`);
+    } catch (error: any) {
+      console.error('Error deleting snippet:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to delete snippet: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  // Fills in a snippet's placeholders; `missing` lists those left without a value
+  renderSnippet: async (id: string, variables: Record<string, string>): Promise<{ body: string; missing: string[] }> => {
+    try {
+      const response = await api.post(`/snippets/${encodeURIComponent(id)}/render`, { variables });
+      return { body: response.data.body, missing: response.data.missing };
+    } catch (error: any) {
+      console.error('Error rendering snippet:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to insert snippet: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  getOutbox: async (status?: OutboxStatus): Promise<OutboxEntry[]> => {
+    try {
+      const response = await api.get('/outbox', { params: status ? { status } : {} });
+      return response.data.entries;
+    } catch (error: any) {
+      console.error('Error fetching outbox:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to fetch outbox: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  getOutboxEntry: async (id: string): Promise<OutboxEntry> => {
+    try {
+      const response = await api.get(`/outbox/${encodeURIComponent(id)}`);
+      return response.data.entry;
+    } catch (error: any) {
+      console.error('Error fetching outbox entry:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to fetch outbox entry: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  cancelOutboxEntry: async (id: string): Promise<OutboxEntry> => {
+    try {
+      const response = await api.post(`/outbox/${encodeURIComponent(id)}/cancel`);
+      return response.data.entry;
+    } catch (error: any) {
+      console.error('Error cancelling email:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to cancel email: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  // Renders a body exactly as it will be sent; the HTML is already sanitized
+  previewBody: async (body: string, format: BodyFormat): Promise<{ html: string; text: string }> => {
+    try {
+      const response = await api.post('/compose/preview', { body, format });
+      return { html: response.data.html, text: response.data.text };
+    } catch (error: any) {
+      console.error('Error rendering preview:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to render preview: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  getDrafts: async (account?: string): Promise<Draft[]> => {
+    try {
+      const response = await api.get('/drafts', { params: account ? { account } : {} });
+      return response.data.drafts;
+    } catch (error: any) {
+      console.error('Error fetching drafts:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to fetch drafts: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  getDraft: async (id: string): Promise<Draft> => {
+    try {
+      const response = await api.get(`/drafts/${encodeURIComponent(id)}`);
+      return response.data.draft;
+    } catch (error: any) {
+      console.error('Error fetching draft:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to fetch draft: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  // Creates the draft without an id, or saves a new revision of an existing one
+  saveDraft: async (fields: DraftFields, id?: string | null): Promise<Draft> => {
+    try {
+      const response = id
+        ? await api.put(`/drafts/${encodeURIComponent(id)}`, fields)
+        : await api.post('/drafts', fields);
+      return response.data.draft;
+    } catch (error: any) {
+      console.error('Error saving draft:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to save draft: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
+    }
+  },
+
+  deleteDraft: async (id: string): Promise<void> => {
+    try {
+      await api.delete(`/drafts/${encodeURIComponent(id)}`);
+    } catch (error: any) {
+      console.error('Error deleting draft:', {
+        message: error.message,
+        status: error.response?.status,
+        data: error.response?.data
+      });
+      throw new Error(`Failed to delete draft: ${error.response?.data?.details || error.response?.data?.error || error.message}`);
     }
   }
 };
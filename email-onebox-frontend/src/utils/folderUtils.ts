@@ -0,0 +1,12 @@
+// Utility functions for working out which sidebar folder an email belongs to
+
+import { Email } from '../services/api';
+
+// Returns the folder role (inbox, sent, drafts, archive, trash, junk) of an email.
+// Falls back to the raw mailbox name for older documents indexed without a role.
+export const getFolderRole = (email: Email): string => {
+  if (email._source?.folderRole) {
+    return email._source.folderRole;
+  }
+  return email._source?.boxName?.toLowerCase() || 'inbox';
+};
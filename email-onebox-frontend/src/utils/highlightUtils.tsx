@@ -0,0 +1,19 @@
+import React from 'react';
+
+// The markers the backend wraps search matches in. They are private-use
+// characters, so fragments stay plain text and are rendered without HTML.
+const HIGHLIGHT_START = '\uE000';
+const HIGHLIGHT_END = '\uE001';
+
+// Renders a highlighted fragment with each match in a <mark>
+export const renderHighlight = (fragment: string): React.ReactNode =>
+  fragment.split(HIGHLIGHT_START).map((part, index) => {
+    const end = part.indexOf(HIGHLIGHT_END);
+    if (index === 0 || end === -1) return part.split(HIGHLIGHT_END).join('');
+    return (
+      <React.Fragment key={index}>
+        <mark className="search-highlight">{part.slice(0, end)}</mark>
+        {part.slice(end + HIGHLIGHT_END.length).split(HIGHLIGHT_END).join('')}
+      </React.Fragment>
+    );
+  });
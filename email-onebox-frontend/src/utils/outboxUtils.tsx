@@ -0,0 +1,124 @@
+import React from 'react';
+import { toast } from 'react-toastify';
+import { emailService, OutboxEntry, SendEmailResponse } from '../services/api';
+
+const POLL_INTERVAL_MS = 2000;
+const MAX_POLLS = 30;
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+}
+
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo }) => (
+  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '12px' }}>
+    <span>{message}</span>
+    <button
+      onClick={onUndo}
+      style={{
+        background: 'none',
+        border: 'none',
+        color: 'var(--primary-color, #1a73e8)',
+        fontWeight: 'bold',
+        cursor: 'pointer',
+        textTransform: 'uppercase'
+      }}
+    >
+      Undo
+    </button>
+  </div>
+);
+
+// Tells the user what became of an outbox entry. Only `sent` means the email
+// was delivered; queued emails are retried by the server and fallback-logged
+// ones never left.
+const showResultToast = (
+  status: OutboxEntry['status'] | undefined,
+  sentMessage: string,
+  details?: string | null
+) => {
+  switch (status) {
+    case 'queued':
+      toast.info(`⏳ ${details ? `Sending failed (${details}), ` : 'Sending failed temporarily, '}the email will be retried`);
+      break;
+    case 'fallback-logged':
+      toast.warn(`⚠️ Not delivered: ${details || 'the email was only logged'}`);
+      break;
+    case 'failed':
+      toast.error(`❌ Failed to send email${details ? `: ${details}` : ''}`);
+      break;
+    case 'cancelled':
+      break;
+    default:
+      toast.success(sentMessage);
+  }
+};
+
+// Waits for the server to finish the first delivery attempt, then reports it
+const watchDelivery = (outboxId: string, sentMessage: string) => {
+  let polls = 0;
+  const poll = async () => {
+    polls += 1;
+    try {
+      const entry = await emailService.getOutboxEntry(outboxId);
+      if (entry.status === 'scheduled' || entry.status === 'sending') {
+        if (polls < MAX_POLLS) setTimeout(poll, POLL_INTERVAL_MS);
+        return;
+      }
+      showResultToast(entry.status, sentMessage, entry.lastError);
+    } catch (error) {
+      console.error('Failed to check delivery:', error);
+    }
+  };
+  setTimeout(poll, POLL_INTERVAL_MS);
+};
+
+const formatSendAt = (sendAt: string) =>
+  new Date(sendAt).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Reports an email the outbox accepted. Emails held for the undo window or a
+// schedule get an Undo button; `onUndone` runs once the send is cancelled.
+export const showDeliveryToast = (
+  response: SendEmailResponse,
+  sentMessage: string,
+  onUndone?: () => void
+) => {
+  if (response.status !== 'scheduled' || !response.outboxId) {
+    showResultToast(response.status, sentMessage, response.error);
+    return;
+  }
+
+  const outboxId = response.outboxId;
+  const undoMs = response.undoUntil ? Date.parse(response.undoUntil) - Date.now() : 0;
+  const isLater = !!response.sendAt && Date.parse(response.sendAt) > Date.now() + undoMs;
+  let toastId: string | number = '';
+
+  const undo = async () => {
+    toast.dismiss(toastId);
+    try {
+      await emailService.cancelOutboxEntry(outboxId);
+      toast.info('↩️ Sending cancelled');
+      onUndone?.();
+    } catch (error: any) {
+      toast.error(error.message || 'Too late to undo');
+    }
+  };
+
+  toastId = toast(
+    <UndoToast
+      message={isLater ? `🕒 Scheduled for ${formatSendAt(response.sendAt!)}` : '📤 Sending…'}
+      onUndo={undo}
+    />,
+    { autoClose: isLater ? 8000 : Math.max(undoMs, 1000), closeOnClick: false }
+  );
+
+  if (!isLater) {
+    watchDelivery(outboxId, sentMessage);
+  }
+};
@@ -0,0 +1,41 @@
+// Utility functions for separating a reply from the history it quotes
+
+export interface SplitBody {
+  visible: string;
+  quoted: string;
+}
+
+// "On Mon, 1 Jan 2024 at 10:00, Alice <alice@example.com> wrote:", which
+// some clients wrap over two lines
+const isAttribution = (line: string, nextLine: string) =>
+  /^On\s.+wrote:$/i.test(line) ||
+  (/^On\s/i.test(line) && /wrote:$/i.test(nextLine));
+
+// Outlook-style "-----Original Message-----" or a "From:/Sent:" header block
+const isOutlookHeader = (line: string, nextLine: string) =>
+  /^-{2,}\s*(Original Message|Forwarded message)\s*-{2,}$/i.test(line) ||
+  (/^From:\s/i.test(line) && /^(Sent|Date):\s/i.test(nextLine));
+
+// Splits an email body at the start of the quoted history. The visible part
+// is never empty: if everything looks quoted, nothing is folded away.
+export const splitQuotedText = (body: string): SplitBody => {
+  const lines = body.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const nextLine = (lines[i + 1] || '').trim();
+    const quotesToEnd =
+      line.startsWith('>') &&
+      lines.slice(i).every(rest => !rest.trim() || rest.trim().startsWith('>'));
+
+    if (isAttribution(line, nextLine) || isOutlookHeader(line, nextLine) || quotesToEnd) {
+      const visible = lines.slice(0, i).join('\n').trim();
+      if (!visible) {
+        break;
+      }
+      return { visible, quoted: lines.slice(i).join('\n').trim() };
+    }
+  }
+
+  return { visible: body, quoted: '' };
+};
@@ -0,0 +1,74 @@
+// Utility functions for building Gmail-style search queries, e.g.
+// `invoice from:alice has:attachment after:2024-01-01`
+
+export interface SearchFilterValues {
+  sender: string;
+  dateFrom: string;
+  dateTo: string;
+  hasAttachment: boolean;
+  isUnread: boolean;
+}
+
+// Quotes values with spaces so they stay one operator value
+const quote = (value: string) => {
+  const trimmed = value.trim().replace(/"/g, '');
+  return /\s/.test(trimmed) ? `"${trimmed}"` : trimmed;
+};
+
+// The day after a YYYY-MM-DD date, since before: excludes the day itself
+const nextDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+};
+
+// Adds the advanced search filters to a typed query as operators, so both
+// reach the backend the same way
+export const buildSearchQuery = (query: string, filters: SearchFilterValues): string => {
+  const parts = [query.trim()];
+  if (filters.sender.trim()) parts.push(`from:${quote(filters.sender)}`);
+  if (filters.dateFrom) parts.push(`after:${filters.dateFrom}`);
+  if (filters.dateTo) parts.push(`before:${nextDay(filters.dateTo)}`);
+  if (filters.hasAttachment) parts.push('has:attachment');
+  if (filters.isUnread) parts.push('is:unread');
+  return parts.filter(Boolean).join(' ');
+};
+
+const FOLDER_OPERATORS: Record<string, string> = {
+  inbox: 'in:inbox',
+  sent: 'in:sent',
+  drafts: 'in:drafts',
+  archive: 'in:archive',
+  trash: 'in:trash',
+  starred: 'is:starred',
+};
+
+// Today's date in the browser's time zone, as YYYY-MM-DD
+const today = () => {
+  const date = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// The operator for a sidebar quick filter; "important" means mail that
+// doesn't come from a no-reply sender
+export const getQuickFilterOperator = (quickFilter: string): string => {
+  switch (quickFilter) {
+    case 'unread':
+      return 'is:unread';
+    case 'today':
+      return `after:${today()}`;
+    case 'attachments':
+      return 'has:attachment';
+    case 'important':
+      return '-from:noreply';
+    default:
+      return '';
+  }
+};
+
+// Narrows a query to a sidebar folder and quick filter, so the server pages
+// through exactly the emails the list shows
+export const buildViewQuery = (query: string, folder: string, quickFilter: string): string =>
+  [query.trim(), FOLDER_OPERATORS[folder] || '', getQuickFilterOperator(quickFilter)]
+    .filter(Boolean)
+    .join(' ');
@@ -0,0 +1,24 @@
+// Utility functions for adding an account's signature to outgoing email
+
+import { AccountSignature, BodyFormat } from '../services/api';
+
+// The conventional "-- " line mail clients use to recognise a signature
+export const formatSignature = (signature: AccountSignature | null | undefined, format: BodyFormat): string => {
+  if (!signature) return '';
+  if (format === 'html') {
+    return `<br><br><div class="signature">-- <br>${signature.html}</div>`;
+  }
+  // Markdown needs the hard line breaks to keep the lines apart
+  const block = `-- \n${signature.text}`;
+  return `\n\n${format === 'markdown' ? block.replace(/\n/g, '  \n') : block}`;
+};
+
+// Swaps the signature block that was inserted earlier for a new one, e.g.
+// after switching accounts or formats. A block the user edited is left alone.
+export const replaceSignature = (body: string, previous: string, next: string): string => {
+  if (previous && body.includes(previous)) {
+    const index = body.lastIndexOf(previous);
+    return body.slice(0, index) + next + body.slice(index + previous.length);
+  }
+  return previous ? body : body + next;
+};
@@ -0,0 +1,41 @@
+// Utility functions for filling in snippet placeholders
+
+// The display name of the first recipient, or a name made from its address
+export const getRecipientName = (to: string): string => {
+  const first = to.split(/[,;]/)[0]?.trim() || '';
+  const named = first.match(/^"?([^"<]+?)"?\s*</);
+  if (named) return named[1].trim();
+  const localPart = first.replace(/[<>]/g, '').split('@')[0] || '';
+  return localPart
+    .split(/[._-]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+};
+
+const getAddress = (text: string) => text.match(/<([^>]+)>/)?.[1] || text.trim();
+
+interface SnippetContext {
+  to: string;
+  from: string;
+  senderName?: string;
+  subject?: string;
+}
+
+// Values for the placeholders every snippet may use, e.g. {{firstName}}
+export const getSnippetVariables = ({ to, from, senderName, subject }: SnippetContext): Record<string, string> => {
+  const recipientName = getRecipientName(to);
+  const firstRecipient = to.split(/[,;]/)[0] || '';
+  const variables: Record<string, string> = {
+    senderEmail: getAddress(from),
+    date: new Date().toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+  };
+  if (recipientName) {
+    variables.recipientName = recipientName;
+    variables.firstName = recipientName.split(' ')[0];
+  }
+  if (firstRecipient.trim()) variables.recipientEmail = getAddress(firstRecipient);
+  if (senderName) variables.senderName = senderName;
+  if (subject) variables.subject = subject;
+  return variables;
+};